@@ -0,0 +1,122 @@
+import {vnode, VNode, VNodeData, Key} from './vnode';
+import {fragment} from './h';
+import {Patch} from './snabbdom';
+import {shallowEqual} from './thunk';
+
+export interface Instance<P, S> {
+  props: P;
+  state: S;
+  // Sets the state and patches the subtree of the component
+  setState(state: S | ((state: S) => S)): void;
+}
+
+export interface ComponentSpec<P, S> {
+  initialState: (props: P) => S;
+  render: (instance: Instance<P, S>) => VNode;
+  mount?: (instance: Instance<P, S>) => void;
+  unmount?: (instance: Instance<P, S>) => void;
+}
+
+export type Component<P> = (props: P, key?: Key) => VNode;
+
+interface ComponentInstance extends Instance<any, any> {
+  spec: ComponentSpec<any, any>;
+  patch: Patch;
+  // The vnode of the component in the current tree
+  vnode: VNode | undefined;
+  mounted: boolean;
+}
+
+interface ComponentData extends VNodeData {
+  component: {spec: ComponentSpec<any, any>, patch: Patch, props: any};
+  instance?: ComponentInstance;
+}
+
+function setState(instance: ComponentInstance, state: any): void {
+  const current = instance.vnode;
+  instance.state = typeof state === 'function' ? state(instance.state) : state;
+  if (current === undefined || current.elm === undefined) return;
+  // Patch a fragment of the rendered vnode without the component's
+  // hooks and update the vnode in the tree with the result
+  const next = vnode(undefined, undefined, [instance.spec.render(instance)], undefined, undefined);
+  instance.patch(vnode(undefined, undefined, current.children, undefined, current.elm as Text), next);
+  current.children = next.children;
+}
+
+function createInstance(vnode: VNode): ComponentInstance {
+  const data = vnode.data as ComponentData, component = data.component;
+  const instance: ComponentInstance = {
+    spec: component.spec,
+    patch: component.patch,
+    props: component.props,
+    state: component.spec.initialState(component.props),
+    vnode: vnode,
+    mounted: false,
+    setState: function(state: any) { setState(instance, state); }
+  };
+  return data.instance = instance;
+}
+
+function mount(instance: ComponentInstance): void {
+  instance.mounted = true;
+  if (instance.spec.mount !== undefined) instance.spec.mount(instance);
+}
+
+function unmount(instance: ComponentInstance): void {
+  instance.vnode = undefined;
+  if (instance.spec.unmount !== undefined) instance.spec.unmount(instance);
+}
+
+function init(vnode: VNode): void {
+  const instance = createInstance(vnode);
+  vnode.children = [instance.spec.render(instance)];
+}
+
+function prepatch(oldVnode: VNode, vnode: VNode): void {
+  const old = oldVnode.data as ComponentData, cur = vnode.data as ComponentData;
+  const instance = old.instance;
+  if (instance === undefined || instance.spec !== cur.component.spec) {
+    // Another component with the same key takes the place
+    if (instance !== undefined) unmount(instance);
+    init(vnode);
+    return;
+  }
+  cur.instance = instance;
+  instance.vnode = vnode;
+  if (shallowEqual(instance.props, cur.component.props)) {
+    vnode.children = oldVnode.children;
+  } else {
+    instance.props = cur.component.props;
+    vnode.children = [instance.spec.render(instance)];
+  }
+}
+
+function insert(vnode: VNode): void {
+  mount((vnode.data as ComponentData).instance as ComponentInstance);
+}
+
+function postpatch(oldVnode: VNode, vnode: VNode): void {
+  const instance = (vnode.data as ComponentData).instance as ComponentInstance;
+  if (!instance.mounted) mount(instance);
+}
+
+function destroy(vnode: VNode): void {
+  const instance = (vnode.data as ComponentData).instance;
+  if (instance !== undefined && instance.vnode !== undefined) unmount(instance);
+}
+
+// Returns a function creating vnodes of the component. A component
+// renders into a fragment and keeps its instance while the vnodes that
+// follow each other are the same by key. It only renders again when its
+// props change or its state is set.
+export function component<P, S>(patch: Patch, spec: ComponentSpec<P, S>): Component<P> {
+  return function(props: P, key?: Key): VNode {
+    return fragment({
+      key: key,
+      hook: {init, prepatch, insert, postpatch, destroy},
+      component: {spec, patch, props}
+    }, []);
+  };
+}
+
+export default component;
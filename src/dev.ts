@@ -0,0 +1,136 @@
+import {VNode} from './vnode';
+import {Module} from './modules/module';
+import {h} from './h';
+import {parseSelector} from './selector';
+import * as is from './is';
+
+export type DevReporter = (message: string, path: string) => void;
+
+// Checks run by a patch function created with the `dev` option of `init`
+export interface DevChecker {
+  checkPatch(oldVnode: VNode, vnode: VNode): void;
+  checkTree(vnode: VNode): void;
+}
+
+// Data keys used by the core, thunks and helpers
+const coreDataKeys = ['key', 'hook', 'ns', 'fn', 'args', 'thunk', 'portal', 'boundary', 'component', 'lazy'];
+
+function warn(message: string, path: string): void {
+  if (typeof console !== 'undefined') {
+    console.warn('snabbdom: ' + message + ' (at ' + path + ')');
+  }
+}
+
+function isText(vnode: VNode): boolean {
+  return vnode.sel === undefined && vnode.children === undefined;
+}
+
+function segment(vnode: VNode): string {
+  return vnode.sel !== undefined ? vnode.sel :
+    vnode.children !== undefined ? '#fragment' : '#text';
+}
+
+function checkSelector(report: DevReporter, sel: string, path: string): void {
+  if (sel === '!') return;
+  try {
+    parseSelector(sel, true);
+  } catch (e) {
+    report(e.message, path);
+  }
+}
+
+function checkChildren(report: DevReporter, children: Array<any>, path: string): void {
+  for (let i = 0; i < children.length; ++i) {
+    const ch = children[i];
+    if (ch != null && (typeof ch !== 'object' || (ch.sel === undefined && ch.text === undefined &&
+                                                  ch.children === undefined))) {
+      report('Child ' + i + ' is not a vnode', path);
+    }
+  }
+}
+
+// Returns the data keys consumed by the core and the modules, or
+// undefined if a module does not declare the keys it uses
+function knownDataKeys(modules: Array<Partial<Module>>): Record<string, boolean> | undefined {
+  let i: number, j: number;
+  const known: Record<string, boolean> = {};
+  for (i = 0; i < coreDataKeys.length; ++i) known[coreDataKeys[i]] = true;
+  for (i = 0; i < modules.length; ++i) {
+    const keys = modules[i].dataKeys;
+    if (keys === undefined) return undefined;
+    for (j = 0; j < keys.length; ++j) known[keys[j]] = true;
+  }
+  return known;
+}
+
+function checkVnode(report: DevReporter, vnode: VNode, path: string, known: Record<string, boolean> | undefined,
+                    seen: WeakSet<VNode>): void {
+  let i: number, key: string;
+  if (seen.has(vnode)) report('The same vnode object is used more than once', path);
+  seen.add(vnode);
+  if (vnode.sel !== undefined) checkSelector(report, vnode.sel, path);
+  if (vnode.text !== undefined && vnode.children !== undefined) {
+    report('Vnode has both text and children', path);
+  }
+  if (vnode.data !== undefined && known !== undefined) {
+    for (key in vnode.data) {
+      if (known[key] !== true) report('No registered module uses the data key "' + key + '"', path);
+    }
+  }
+  if (vnode.children === undefined) return;
+  const keys: Record<string, boolean> = {};
+  let keyed = 0, unkeyed = 0;
+  for (i = 0; i < vnode.children.length; ++i) {
+    const ch = vnode.children[i] as VNode;
+    if (ch == null) continue;
+    const childPath = path + ' > ' + segment(ch) + ':nth-child(' + (i + 1) + ')';
+    if (ch.key !== undefined) {
+      if (keys[ch.key] === true) report('Duplicate key "' + ch.key + '" among siblings', childPath);
+      keys[ch.key] = true;
+      keyed++;
+    } else if (!isText(ch) && ch.sel !== '!') {
+      unkeyed++;
+    }
+    checkVnode(report, ch, childPath, known, seen);
+  }
+  if (keyed > 0 && unkeyed > 0) {
+    report('Children mix keyed and unkeyed vnodes', path);
+  }
+}
+
+// Returns the checks of a patch function, reports are logged with
+// `console.warn` unless a reporter is given
+export function createDevChecker(dev: true | DevReporter, modules: Array<Partial<Module>>): DevChecker {
+  const report = dev === true ? warn : dev;
+  const known = knownDataKeys(modules);
+  // Old vnodes that have been patched by this patch function
+  const patched = new WeakSet<VNode>();
+
+  function checkTree(vnode: VNode): void {
+    checkVnode(report, vnode, segment(vnode), known, new WeakSet<VNode>());
+  }
+
+  return {
+    checkTree: checkTree,
+    checkPatch: function(oldVnode: VNode, vnode: VNode): void {
+      if (patched.has(oldVnode)) {
+        report('The old vnode has already been patched, pass the vnode of the previous patch instead',
+               segment(oldVnode));
+      }
+      if (oldVnode !== vnode) patched.add(oldVnode);
+      checkTree(vnode);
+    }
+  };
+}
+
+// Returns a variant of `h` that reports invalid selectors and children
+// that are not vnodes
+export function createDevH(reporter?: DevReporter): typeof h {
+  const report = reporter !== undefined ? reporter : warn;
+  return function(sel: any, b?: any, c?: any): VNode {
+    const vnode = (h as any)(sel, b, c);
+    checkSelector(report, sel, sel);
+    if (is.array(vnode.children)) checkChildren(report, vnode.children, sel);
+    return vnode;
+  } as typeof h;
+}
@@ -4,8 +4,9 @@ export type VNodeChildElement = VNode | string | number | undefined | null;
 export type ArrayOrElement<T> = T | T[];
 export type VNodeChildren = ArrayOrElement<VNodeChildElement>
 import * as is from './is';
+import {canonicalSelector} from './selector';
 
-function addNS(data: any, children: VNodes | undefined, sel: string | undefined): void {
+export function addNS(data: any, children: VNodes | undefined, sel: string | undefined): void {
   data.ns = 'http://www.w3.org/2000/svg';
   if (sel !== 'foreignObject' && children !== undefined) {
     for (let i = 0; i < children.length; ++i) {
@@ -41,10 +42,30 @@ export function h(sel: any, b?: any, c?: any): VNode {
   }
   if (
     sel[0] === 's' && sel[1] === 'v' && sel[2] === 'g' &&
-    (sel.length === 3 || sel[3] === '.' || sel[3] === '#')
+    (sel.length === 3 || sel[3] === '.' || sel[3] === '#' || sel[3] === '[')
   ) {
     addNS(data, children, sel);
   }
-  return vnode(sel, data, children, text, undefined);
+  // `patch` compares selectors without attributes as strings, so `h`
+  // stores the form that `emptyNodeAt` and `toVNode` give elements, e.g.
+  // `div#a.b` for `div.b#a`. Most selectors are in that form already.
+  return vnode(canonicalSelector(sel), data, children, text, undefined);
+};
+
+export function fragment(children: VNodeChildren): VNode;
+export function fragment(data: VNodeData, children: VNodeChildren): VNode;
+export function fragment(b: any, c?: any): VNode {
+  var data: VNodeData = {}, children: any, i: number;
+  if (c !== undefined) {
+    data = b;
+    children = c;
+  } else {
+    children = b;
+  }
+  children = is.array(children) ? children : [children];
+  for (i = 0; i < children.length; ++i) {
+    if (is.primitive(children[i])) children[i] = vnode(undefined, undefined, undefined, children[i], undefined);
+  }
+  return vnode(undefined, data, children, undefined, undefined);
 };
 export default h;
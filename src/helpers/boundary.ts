@@ -0,0 +1,33 @@
+import {VNode, Key} from '../vnode';
+import {fragment, VNodeChildren} from '../h';
+
+export interface ErrorContext {
+  // What the boundary was doing when the error was thrown
+  phase: 'create' | 'patch' | 'insert';
+  // The boundary vnode
+  vnode: VNode;
+}
+
+export interface Boundary {
+  // Renders the vnode shown instead of the children
+  fallback: (error: any) => VNode;
+  // Reports the error, defaults to `console.error`
+  onError?: (error: any, context: ErrorContext) => void;
+  key?: Key;
+}
+
+export function reportError(options: Boundary, error: any, context: ErrorContext): void {
+  if (options.onError !== undefined) {
+    options.onError(error, context);
+  } else if (typeof console !== 'undefined') {
+    console.error(error);
+  }
+}
+
+// Catches errors thrown while the children are created, patched or
+// inserted, and renders the fallback in their place
+export function boundary(options: Boundary, children: VNodeChildren): VNode {
+  return fragment({key: options.key, boundary: options}, children);
+}
+
+export default boundary;
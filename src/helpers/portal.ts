@@ -0,0 +1,17 @@
+import {VNode, Key} from '../vnode';
+import {fragment, VNodeChildren} from '../h';
+
+export interface PortalData {
+  // The element or a selector of the element the children are rendered into
+  target: Element | string;
+  // The element the children are currently in
+  elm?: Node;
+}
+
+// Renders the children at the end of the target instead of in place. Only
+// an empty text node is left where the portal is.
+export function portal(target: Element | string, children: VNodeChildren, key?: Key): VNode {
+  return fragment({key: key, portal: {target: target}}, children);
+}
+
+export default portal;
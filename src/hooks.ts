@@ -1,6 +1,6 @@
-import {VNode} from './vnode';
+import {VNode, VNodeData} from './vnode';
 
-export type PreHook = () => any;
+export type PreHook = (vNode?: VNode) => any;
 export type InitHook = (vNode: VNode) => any;
 export type CreateHook = (emptyVNode: VNode, vNode: VNode) => any;
 export type InsertHook = (vNode: VNode) => any;
@@ -10,6 +10,8 @@ export type PostPatchHook = (oldVNode: VNode, vNode: VNode) => any;
 export type DestroyHook = (vNode: VNode) => any;
 export type RemoveHook = (vNode: VNode, removeCallback: () => void) => any;
 export type PostHook = () => any;
+export type HTMLHook = (vNode: VNode, attributes: Record<string, string>) => any;
+export type HydrateHook = (vNode: VNode, oldData: VNodeData) => any;
 
 export interface Hooks {
   pre?: PreHook;
@@ -14,6 +14,8 @@ export interface DOMAPI {
   isElement: (node: Node) => node is Element;
   isText: (node: Node) => node is Text;
   isComment: (node: Node) => node is Comment;
+  // Finds the target of portals given by a selector, `document.querySelector` if missing
+  querySelector?: (selector: string) => Element | null;
 }
 
 function createElement(tagName: any): HTMLElement {
@@ -76,6 +78,10 @@ function isComment(node: Node): node is Comment {
   return node.nodeType === 8;
 }
 
+function querySelector(selector: string): Element | null {
+  return document.querySelector(selector);
+}
+
 export const htmlDomApi = {
   createElement,
   createElementNS,
@@ -92,6 +98,7 @@ export const htmlDomApi = {
   isElement,
   isText,
   isComment,
+  querySelector,
 } as DOMAPI;
 
 export default htmlDomApi;
@@ -0,0 +1,19 @@
+import {VNode, Key} from './vnode';
+import {jsx as createElement, Fragment, FunctionComponent} from './jsx';
+
+// The functions of the automatic JSX runtime, where the children are
+// passed in the props
+export function jsx(tag: string | FunctionComponent, props: any, key?: Key): VNode {
+  const data: any = {};
+  for (let name in props) {
+    if (name !== 'children') data[name] = props[name];
+  }
+  if (key !== undefined) data.key = key;
+  return createElement(tag, data, props.children);
+}
+
+export const jsxs = jsx;
+export const jsxDEV = jsx;
+
+export {Fragment};
+export import JSX = createElement.JSX;
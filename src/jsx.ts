@@ -0,0 +1,179 @@
+import {VNode, VNodeData, Key} from './vnode';
+import {h, fragment} from './h';
+import {Hooks} from './hooks';
+import {VNodeStyle} from './modules/style';
+import {On} from './modules/eventlisteners';
+import {OnWindow, OnDocument} from './modules/globallisteners';
+import {Attrs} from './modules/attributes';
+import {ClassValue, Classes} from './modules/class';
+import {Props} from './modules/props';
+import {Dataset} from './modules/dataset';
+import {Hero} from './modules/hero';
+import {Flip} from './modules/flip';
+import {PropertyKeys, ElementOn} from './tags';
+import {camelize} from './util';
+
+export type JsxChild = VNode | string | number | boolean | null | undefined | JsxChildArray;
+export interface JsxChildArray extends Array<JsxChild> {}
+
+// The data keys of the modules, given as props of JSX elements
+export interface JsxAttributes {
+  key?: Key;
+  class?: ClassValue;
+  className?: ClassValue;
+  style?: VNodeStyle | string;
+  on?: On;
+  props?: Props;
+  attrs?: Attrs;
+  dataset?: Dataset;
+  hook?: Hooks;
+  onWindow?: OnWindow;
+  onDocument?: OnDocument;
+  hero?: Hero;
+  flip?: Flip;
+  ns?: string;
+  children?: JsxChild;
+}
+
+// `on` of intrinsic elements only takes the events of the element
+export type ElementAttributes<E> = Omit<JsxAttributes, 'on'> & {on?: ElementOn<E>};
+
+// Props of HTML elements are typed from the properties of the element
+export type HtmlAttributes<E> = ElementAttributes<E> & {
+  [K in Exclude<PropertyKeys<E>, keyof JsxAttributes>]?: E[K]
+};
+
+// Props of SVG elements are set as attributes
+export type SvgAttributes = ElementAttributes<SVGElement> & {[name: string]: any};
+
+// Function components get their children flattened in `props.children`
+export type FunctionComponent<P = any> = (props: P & {children?: JsxChild}) => VNode;
+
+// Data keys that are passed on unchanged
+const dataKeys: Record<string, boolean> = {
+  on: true, props: true, attrs: true, dataset: true, hook: true, style: true,
+  onWindow: true, onDocument: true, hero: true, flip: true
+};
+
+// Prefixes of props like `on-click` that set a key in a data key
+const prefixes: Record<string, string> = {
+  on: 'on', props: 'props', attrs: 'attrs', dataset: 'dataset', data: 'dataset',
+  hook: 'hook', style: 'style', class: 'class'
+};
+
+function set(data: any, key: string, name: string, value: any): void {
+  (data[key] || (data[key] = {}))[name] = value;
+}
+
+function assign(data: any, key: string, values: any): void {
+  for (let name in values) set(data, key, name, values[name]);
+}
+
+function flatten(children: JsxChild, result: Array<VNode | string>): Array<VNode | string> {
+  if (Array.isArray(children)) {
+    for (let i = 0; i < children.length; ++i) flatten(children[i], result);
+  } else if (typeof children === 'string' || typeof children === 'number') {
+    result.push(String(children));
+  } else if (children != null && typeof children !== 'boolean') {
+    result.push(children);
+  }
+  return result;
+}
+
+// Maps the props of a JSX element onto the data keys of the modules, props
+// that are no data key are set as properties of the element
+function toData(props: any): VNodeData {
+  const data: any = {}, classes: Array<ClassValue> = [];
+  let name: string, i: number, prefix: string, record: Classes;
+  for (name in props) {
+    const value = props[name];
+    if (name === 'children') continue;
+    if (name === 'key') {
+      data.key = value;
+    } else if (name === 'class' || name === 'className') {
+      classes.push(value);
+    } else if (name === 'ns') {
+      data.ns = value;
+    } else if (name === 'style' && typeof value === 'string') {
+      set(data, 'attrs', 'style', value);
+    } else if (dataKeys[name] === true) {
+      assign(data, name, value);
+    } else if ((i = name.indexOf('-')) > 0) {
+      prefix = prefixes[name.slice(0, i)];
+      if (prefix === undefined) {
+        // such as `aria-label`
+        set(data, 'attrs', name, value);
+      } else if (prefix === 'class') {
+        record = {};
+        record[name.slice(i + 1)] = !!value;
+        classes.push(record);
+      } else {
+        set(data, prefix, prefix === 'dataset' ? camelize(name.slice(i + 1)) : name.slice(i + 1), value);
+      }
+    } else {
+      set(data, 'props', name, value);
+    }
+  }
+  if (classes.length > 0) data.class = classes.length === 1 ? classes[0] : classes;
+  return data;
+}
+
+// Props of the elements in an SVG are set as attributes
+function svgAttributes(vnode: VNode): void {
+  const data = vnode.data;
+  if (data === undefined || vnode.sel === 'foreignObject') return;
+  if (data.props !== undefined) {
+    assign(data, 'attrs', data.props);
+    delete data.props;
+  }
+  if (vnode.children !== undefined) {
+    for (let i = 0; i < vnode.children.length; ++i) {
+      const ch = vnode.children[i];
+      if (typeof ch !== 'string') svgAttributes(ch);
+    }
+  }
+}
+
+// Creates a vnode for a JSX element, for use as the factory of the
+// classic JSX transform
+export function jsx(tag: string | FunctionComponent, props: any, ...children: Array<JsxChild>): VNode {
+  const flat = flatten(children, []);
+  if (typeof tag === 'function') {
+    const componentProps: any = {};
+    for (let name in props) componentProps[name] = props[name];
+    if (flat.length > 0) componentProps.children = flat;
+    const result = tag(componentProps);
+    if (props != null && props.key !== undefined && result.key === undefined) {
+      result.key = props.key;
+      if (result.data !== undefined) result.data.key = props.key;
+    }
+    return result;
+  }
+  const data = toData(props);
+  const vnode = flat.length === 0 ? h(tag, data) :
+    flat.length === 1 && typeof flat[0] === 'string' ? h(tag, data, flat[0] as string) : h(tag, data, flat);
+  if (tag === 'svg') svgAttributes(vnode);
+  return vnode;
+}
+
+// Groups its children without an element, `<>...</>` or `<Fragment>`
+export function Fragment(props: {key?: Key, children?: JsxChild}): VNode {
+  return fragment({key: props.key}, flatten(props.children, []));
+}
+
+export declare namespace jsx {
+  namespace JSX {
+    type Element = VNode;
+    type HtmlElements = {[T in keyof HTMLElementTagNameMap]: HtmlAttributes<HTMLElementTagNameMap[T]>};
+    type SvgElements = {[T in Exclude<keyof SVGElementTagNameMap, keyof HTMLElementTagNameMap>]: SvgAttributes};
+    interface IntrinsicElements extends HtmlElements, SvgElements {}
+    interface IntrinsicAttributes {
+      key?: Key;
+    }
+    interface ElementChildrenAttribute {
+      children: {};
+    }
+  }
+}
+
+export default jsx;
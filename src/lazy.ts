@@ -0,0 +1,88 @@
+import {vnode, VNode, VNodeData, Key} from './vnode';
+import {fragment} from './h';
+import {Patch} from './snabbdom';
+
+export interface LazyOptions {
+  // Renders the vnode shown until the promise settles
+  placeholder: () => VNode;
+  // Renders the vnode shown if the promise rejects, otherwise the
+  // error is logged and the placeholder stays
+  error?: (error: any) => VNode;
+  key?: Key;
+}
+
+interface LazyData extends VNodeData {
+  lazy: {patch: Patch, options: LazyOptions, fn: (...args: Array<any>) => Promise<VNode>, args: Array<any>};
+  // The vnode in the current tree waiting for the promise
+  pending?: {vnode: VNode | undefined};
+}
+
+function settle(pending: {vnode: VNode | undefined}, patch: Patch, next: VNode): void {
+  const current = pending.vnode;
+  // Stale when the vnode was destroyed or its arguments changed
+  if (current === undefined || current.elm === undefined) return;
+  const children = vnode(undefined, undefined, [next], undefined, undefined);
+  patch(vnode(undefined, undefined, current.children, undefined, current.elm as Text), children);
+  // Cleared once patched, so that the error vnode can take the place of a
+  // vnode that failed to patch
+  pending.vnode = undefined;
+  current.children = children.children;
+}
+
+function load(vnode: VNode): void {
+  const data = vnode.data as LazyData, lazy = data.lazy, options = lazy.options;
+  const pending = data.pending = {vnode: vnode};
+  let promise: Promise<VNode>;
+  try {
+    promise = lazy.fn.apply(undefined, lazy.args);
+  } catch (error) {
+    promise = Promise.reject(error);
+  }
+  // Errors of the loader and of patching its result are handled alike
+  promise.then(function(result: VNode) {
+    settle(pending, lazy.patch, result);
+  }).catch(function(error: any) {
+    if (options.error === undefined) throw error;
+    settle(pending, lazy.patch, options.error(error));
+  }).catch(function(error: any) {
+    if (typeof console !== 'undefined') console.error(error);
+  });
+}
+
+function prepatch(oldVnode: VNode, vnode: VNode): void {
+  let i: number;
+  const old = oldVnode.data as LazyData, cur = vnode.data as LazyData;
+  const oldArgs = old.lazy.args, args = cur.lazy.args;
+  let same = old.lazy.fn === cur.lazy.fn && oldArgs.length === args.length;
+  for (i = 0; same && i < args.length; ++i) {
+    same = oldArgs[i] === args[i];
+  }
+  if (same) {
+    // Keep what was rendered and the promise if it is still pending
+    vnode.children = oldVnode.children;
+    cur.pending = old.pending;
+    if (cur.pending !== undefined && cur.pending.vnode !== undefined) cur.pending.vnode = vnode;
+    return;
+  }
+  if (old.pending !== undefined) old.pending.vnode = undefined;
+  load(vnode);
+}
+
+function destroy(vnode: VNode): void {
+  const pending = (vnode.data as LazyData).pending;
+  if (pending !== undefined) pending.vnode = undefined;
+}
+
+// Renders the placeholder and patches in the vnode the promise returned
+// by `fn` resolves with. The promise is created again when `fn` or the
+// args change.
+export function lazy(patch: Patch, options: LazyOptions,
+                     fn: (...args: Array<any>) => Promise<VNode>, args: Array<any>): VNode {
+  return fragment({
+    key: options.key,
+    hook: {init: load, prepatch, destroy},
+    lazy: {patch, options, fn, args}
+  }, [options.placeholder()]);
+}
+
+export default lazy;
@@ -1,5 +1,6 @@
 import {VNode, VNodeData} from '../vnode';
 import {Module} from './module';
+import {parseSelector} from '../selector';
 
 // because those in TypeScript are too restrictive: https://github.com/Microsoft/TSJS-lib-generator/pull/237
 declare global {
@@ -53,12 +54,51 @@ function updateAttrs(oldVnode: VNode, vnode: VNode): void {
   // remove removed attributes
   // use `in` operator since the previous `for` iteration uses it (.i.e. add even attributes with undefined value)
   // the other option is to remove all attributes with value == undefined
+  // attributes in the selector stay when they are removed from the data
+  const selectorAttrs = vnode.sel !== undefined && vnode.sel.indexOf('[') !== -1 ? parseSelector(vnode.sel).attrs : undefined;
   for (key in oldAttrs) {
     if (!(key in attrs)) {
-      elm.removeAttribute(key);
+      if (selectorAttrs !== undefined && key in selectorAttrs) {
+        if (elm.getAttribute(key) !== selectorAttrs[key]) elm.setAttribute(key, selectorAttrs[key]);
+      } else {
+        elm.removeAttribute(key);
+      }
+    }
+  }
+}
+
+function attrsToHTML(vnode: VNode, attributes: Record<string, string>): void {
+  var key: string, attrs = (vnode.data as VNodeData).attrs;
+  if (!attrs) return;
+  for (key in attrs) {
+    const cur = attrs[key];
+    if (cur === true) {
+      attributes[key] = '';
+    } else if (cur !== false) {
+      attributes[key] = String(cur);
+    }
+  }
+}
+
+function hydrateAttrs(vnode: VNode, oldData: VNodeData): void {
+  var key: string, cur: any, elm = vnode.elm as Element, attrs = (vnode.data as VNodeData).attrs,
+      matched: Attrs;
+  if (!attrs) return;
+  matched = oldData.attrs = {};
+  for (key in attrs) {
+    cur = attrs[key];
+    if (cur === true ? elm.hasAttribute(key) :
+        cur === false ? !elm.hasAttribute(key) : elm.getAttribute(key) === String(cur)) {
+      matched[key] = cur;
     }
   }
 }
 
-export const attributesModule = {create: updateAttrs, update: updateAttrs} as Module;
+export const attributesModule = {
+  create: updateAttrs,
+  update: updateAttrs,
+  html: attrsToHTML,
+  hydrate: hydrateAttrs,
+  dataKeys: ['attrs']
+} as Module;
 export default attributesModule;
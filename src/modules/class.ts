@@ -1,30 +1,97 @@
 import {VNode, VNodeData} from '../vnode';
 import {Module} from './module';
+import {parseSelector} from '../selector';
 
 export type Classes = Record<string, boolean>
 
+// A class string, an object of class names to booleans or an array of
+// these, arrays can be nested and falsy entries are ignored
+export type ClassValue = string | Classes | ClassArray | null | undefined | boolean
+export interface ClassArray extends Array<ClassValue> {}
+
+// Flattens a class value to the class names to add (true) and remove
+// (false), later entries win
+export function toClassRecord(value: ClassValue, record?: Classes): Classes {
+  var i: number, name: string, names: Array<string>, result: Classes = record || {};
+  if (typeof value === 'string') {
+    names = value.split(/\s+/);
+    for (i = 0; i < names.length; ++i) {
+      if (names[i]) result[names[i]] = true;
+    }
+  } else if (Array.isArray(value)) {
+    for (i = 0; i < value.length; ++i) toClassRecord(value[i], result);
+  } else if (value && typeof value === 'object') {
+    for (name in value) result[name] = !!value[name];
+  }
+  return result;
+}
+
+// The classes of the selector are the base the class data is applied to
+function classesOf(vnode: VNode): Classes {
+  var className = vnode.sel ? parseSelector(vnode.sel).className : undefined;
+  return toClassRecord([className, (vnode.data as VNodeData).class]);
+}
+
 function updateClass(oldVnode: VNode, vnode: VNode): void {
-  var cur: any, name: string, elm: Element = vnode.elm as Element,
+  var name: string, elm: Element = vnode.elm as Element, classList = elm.classList,
       oldClass = (oldVnode.data as VNodeData).class,
       klass = (vnode.data as VNodeData).class;
 
   if (!oldClass && !klass) return;
   if (oldClass === klass) return;
-  oldClass = oldClass || {};
-  klass = klass || {};
+  var oldClasses = classesOf(oldVnode), classes = classesOf(vnode), names: Array<string> = [];
 
-  for (name in oldClass) {
-    if (!klass[name]) {
-      elm.classList.remove(name);
+  if (classList === undefined) {
+    // without classList the whole attribute is set
+    for (name in classes) {
+      if (classes[name]) names.push(name);
     }
+    elm.setAttribute('class', names.join(' '));
+    return;
+  }
+  for (name in oldClasses) {
+    if (oldClasses[name] && !(name in classes)) classList.remove(name);
   }
-  for (name in klass) {
-    cur = klass[name];
-    if (cur !== oldClass[name]) {
-      (elm.classList as any)[cur ? 'add' : 'remove'](name);
+  for (name in classes) {
+    if (classes[name] !== oldClasses[name]) {
+      if (classes[name]) classList.add(name);
+      else classList.remove(name);
     }
   }
 }
 
-export const classModule = {create: updateClass, update: updateClass} as Module;
+function classToHTML(vnode: VNode, attributes: Record<string, string>): void {
+  var name: string, klass = (vnode.data as VNodeData).class, classes: Classes,
+      names: Array<string> = attributes['class'] ? attributes['class'].split(' ') : [];
+  if (!klass) return;
+  classes = toClassRecord(klass);
+  for (name in classes) {
+    if (classes[name] && names.indexOf(name) === -1) {
+      names.push(name);
+    } else if (!classes[name] && names.indexOf(name) !== -1) {
+      names.splice(names.indexOf(name), 1);
+    }
+  }
+  if (names.length > 0) attributes['class'] = names.join(' ');
+  else delete attributes['class'];
+}
+
+function hydrateClass(vnode: VNode, oldData: VNodeData): void {
+  var name: string, elm = vnode.elm as Element, klass = (vnode.data as VNodeData).class,
+      classes: Classes, matched: Classes;
+  if (!klass || elm.classList === undefined) return;
+  matched = oldData.class = {};
+  classes = toClassRecord(klass);
+  for (name in classes) {
+    if (classes[name] === elm.classList.contains(name)) matched[name] = classes[name];
+  }
+}
+
+export const classModule = {
+  create: updateClass,
+  update: updateClass,
+  html: classToHTML,
+  hydrate: hydrateClass,
+  dataKeys: ['class']
+} as Module;
 export default classModule;
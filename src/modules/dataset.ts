@@ -39,5 +39,28 @@ function updateDataset(oldVnode: VNode, vnode: VNode): void {
   }
 }
 
-export const datasetModule = {create: updateDataset, update: updateDataset} as Module;
+function datasetToHTML(vnode: VNode, attributes: Record<string, string>): void {
+  let key: string, dataset = (vnode.data as VNodeData).dataset;
+  if (!dataset) return;
+  for (key in dataset) {
+    attributes['data-' + key.replace(CAPS_REGEX, '-$&').toLowerCase()] = dataset[key];
+  }
+}
+
+function hydrateDataset(vnode: VNode, oldData: VNodeData): void {
+  let key: string, elm = vnode.elm as HTMLElement, dataset = (vnode.data as VNodeData).dataset, matched: Dataset;
+  if (!dataset || elm.dataset === undefined) return;
+  matched = oldData.dataset = {};
+  for (key in dataset) {
+    if (elm.dataset[key] === dataset[key]) matched[key] = dataset[key];
+  }
+}
+
+export const datasetModule = {
+  create: updateDataset,
+  update: updateDataset,
+  html: datasetToHTML,
+  hydrate: hydrateDataset,
+  dataKeys: ['dataset']
+} as Module;
 export default datasetModule;
@@ -0,0 +1,148 @@
+import {VNode, VNodeData} from '../vnode';
+import {Module} from './module';
+import {invokeHandler, On} from './eventlisteners';
+
+// Events that don't bubble and the bubbling events they are delegated with
+var bubblingEvents: Record<string, string> = {
+  focus: 'focusin',
+  blur: 'focusout'
+};
+
+// Events that don't bubble and have no bubbling counterpart, the root
+// listens for them while they are captured
+var capturedEvents: Record<string, boolean> = {
+  mouseenter: true,
+  mouseleave: true,
+  pointerenter: true,
+  pointerleave: true,
+  load: true,
+  error: true,
+  abort: true,
+  scroll: true
+};
+
+// The node the listeners of a patch are added to, the parent of the
+// nodes a fragment renders
+function rootOf(vnode: VNode): Node | null {
+  var elm = vnode.elm;
+  if (elm === undefined) return null;
+  return elm.nodeType === 1 ? elm : elm.parentNode;
+}
+
+// Creates a delegated events module, every `init` needs its own as the
+// module keeps the delegated vnodes and the listeners of each root
+export function createDelegatedEventsModule(): Module {
+  // Event types with handlers in any patch so far
+  var types: Record<string, boolean> = {};
+  // The vnodes with handlers by their elements
+  var delegated = new WeakMap<Node, VNode>();
+  // The event types listened for on each root
+  var rootTypes = new WeakMap<Node, Record<string, true>>();
+  // The vnodes of the patches in progress, nested patches push theirs
+  var patches: Array<VNode> = [];
+
+  function handlesType(node: Node, type: string): boolean {
+    var listened = rootTypes.get(node);
+    return listened !== undefined && listened[type] === true;
+  }
+
+  function dispatch(event: Event): void {
+    var name: string,
+        root = event.currentTarget as Node,
+        target = event.target as Node,
+        stop = event.stopPropagation,
+        stopImmediate = event.stopImmediatePropagation,
+        stopped = false,
+        node: Node | null,
+        start: Node | null = target,
+        vnode: VNode | undefined,
+        on: On | undefined;
+
+    // the elements up to a nested root are handled by the listener of that
+    // root, which the event reached first or, while capturing, reaches next
+    for (node = target; node !== null && node !== root; node = node.parentNode) {
+      if (handlesType(node, event.type)) start = node.parentNode;
+    }
+
+    // emulate propagation between the elements the listener stands for
+    event.stopPropagation = function() {
+      stopped = true;
+      stop.call(event);
+    };
+    event.stopImmediatePropagation = function() {
+      stopped = true;
+      stopImmediate.call(event);
+    };
+
+    // call handlers of non-bubbling events only on the target
+    vnode = start === target ? delegated.get(target) : undefined;
+    on = vnode !== undefined ? (vnode.data as VNodeData).on : undefined;
+    if (capturedEvents[event.type]) {
+      if (on && on[event.type]) invokeHandler(on[event.type], vnode, event);
+      return;
+    }
+    for (name in bubblingEvents) {
+      if (bubblingEvents[name] === event.type && on && on[name]) invokeHandler(on[name], vnode, event);
+    }
+
+    for (node = start; node !== null && !stopped; node = node === root ? null : node.parentNode) {
+      vnode = delegated.get(node);
+      if (vnode !== undefined) {
+        on = (vnode.data as VNodeData).on;
+        if (on && on[event.type]) invokeHandler(on[event.type], vnode, event);
+      }
+    }
+  }
+
+  function pre(vnode: VNode): void {
+    patches.push(vnode);
+  }
+
+  function updateDelegation(oldVnode: VNode, vnode: VNode): void {
+    var name: string,
+        elm = vnode.elm as Element,
+        on = (vnode.data as VNodeData).on;
+
+    if (on) {
+      delegated.set(elm, vnode);
+      for (name in on) {
+        types[bubblingEvents[name] || name] = true;
+      }
+    } else {
+      delegated.delete(elm);
+    }
+  }
+
+  function destroy(vnode: VNode): void {
+    delegated.delete(vnode.elm as Node);
+  }
+
+  function post(): void {
+    var name: string,
+        vnode = patches.pop(),
+        root = vnode !== undefined ? rootOf(vnode) : null,
+        listened: Record<string, true> | undefined;
+
+    if (root === null) return;
+    // marks the root, dispatching from an enclosing root skips its elements
+    listened = rootTypes.get(root);
+    if (listened === undefined) rootTypes.set(root, listened = {});
+    // add one listener to the root for every event type not added yet
+    for (name in types) {
+      if (!listened[name]) {
+        listened[name] = true;
+        root.addEventListener(name, dispatch, capturedEvents[name] === true);
+      }
+    }
+  }
+
+  return {
+    pre: pre,
+    create: updateDelegation,
+    update: updateDelegation,
+    destroy: destroy,
+    post: post,
+    dataKeys: ['on']
+  } as Module;
+}
+export default createDelegatedEventsModule;
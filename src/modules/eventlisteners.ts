@@ -1,16 +1,47 @@
 import {VNode, VNodeData} from '../vnode';
 import {Module} from './module';
 
-export type On = {
-  [N in keyof HTMLElementEventMap]?: (ev: HTMLElementEventMap[N]) => void
-} & {
-  [event: string]: EventListener
+export interface Listener<E extends Event = Event> {
+  handler: ((ev: E) => void) | Array<any>;
+  // options of addEventListener
+  capture?: boolean;
+  passive?: boolean;
+  once?: boolean;
+  // modifiers applied before the handler is called
+  preventDefault?: boolean;
+  stopPropagation?: boolean;
+  // only call the handler if the event was dispatched on the element itself
+  self?: boolean;
+  // only call the handler for these values of `KeyboardEvent.key`
+  keys?: Array<string>;
+}
+
+// Handlers of the events in an event map, such as `HTMLElementEventMap`
+export type OnEvents<M> = {
+  [N in keyof M]?: ((ev: M[N] & Event) => void) | Listener<M[N] & Event>
 };
 
-function invokeHandler(handler: any, vnode?: VNode, event?: Event): void {
+export type On = OnEvents<HTMLElementEventMap> & {
+  [event: string]: EventListener | Listener | undefined
+};
+
+function invokeListener(listener: Listener, vnode?: VNode, event?: Event): void {
+  if (event !== undefined) {
+    if (listener.self && vnode !== undefined && event.target !== vnode.elm) return;
+    if (listener.keys && listener.keys.indexOf((event as KeyboardEvent).key) === -1) return;
+    if (listener.preventDefault) event.preventDefault();
+    if (listener.stopPropagation) event.stopPropagation();
+  }
+  invokeHandler(listener.handler, vnode, event);
+}
+
+export function invokeHandler(handler: any, vnode?: VNode, event?: Event): void {
   if (typeof handler === "function") {
     // call function handler
     handler.call(vnode, event, vnode);
+  } else if (typeof handler === "object" && handler.handler !== undefined) {
+    // call handler with listener options
+    invokeListener(handler, vnode, event);
   } else if (typeof handler === "object") {
     // call handler with arguments
     if (typeof handler[0] === "function") {
@@ -32,9 +63,9 @@ function invokeHandler(handler: any, vnode?: VNode, event?: Event): void {
   }
 }
 
-function handleEvent(event: Event, vnode: VNode) {
+function handleEvent(event: Event, vnode: VNode, key: string) {
   var name = event.type,
-      on = (vnode.data as VNodeData).on;
+      on = (vnode.data as VNodeData)[key];
 
   // call event handler(s) if exists
   if (on && on[name]) {
@@ -42,18 +73,42 @@ function handleEvent(event: Event, vnode: VNode) {
   }
 }
 
-function createListener() {
+function createListener(key: string) {
   return function handler(event: Event) {
-    handleEvent(event, (handler as any).vnode);
+    handleEvent(event, (handler as any).vnode, key);
   }
 }
 
-function updateEventListeners(oldVnode: VNode, vnode?: VNode): void {
-  var oldOn = (oldVnode.data as VNodeData).on,
-      oldListener = (oldVnode as any).listener,
-      oldElm: Element = oldVnode.elm as Element,
-      on = vnode && (vnode.data as VNodeData).on,
-      elm: Element = (vnode && vnode.elm) as Element,
+function captureOf(handler: any): boolean {
+  return typeof handler === "object" && handler.handler !== undefined && !!handler.capture;
+}
+
+// the options given to addEventListener, a boolean unless passive or once are set
+function listenerOptions(handler: any): boolean | AddEventListenerOptions {
+  if (typeof handler !== "object" || handler.handler === undefined) return false;
+  if (handler.passive === undefined && handler.once === undefined) return !!handler.capture;
+  return {capture: !!handler.capture, passive: !!handler.passive, once: !!handler.once};
+}
+
+function sameOptions(oldHandler: any, handler: any): boolean {
+  var oldOptions = listenerOptions(oldHandler), options = listenerOptions(handler);
+  if (typeof oldOptions === "boolean" || typeof options === "boolean") return oldOptions === options;
+  return oldOptions.capture === options.capture && oldOptions.passive === options.passive &&
+    oldOptions.once === options.once;
+}
+
+// the vnode property holding the listener of the handlers in `key`
+function listenerKey(key: string): string {
+  return key === "on" ? "listener" : key + "Listener";
+}
+
+// Adds and removes the listeners that differ between the handlers in the
+// `key` data of the vnodes, on the targets of the old and the new vnode
+export function updateListeners(key: string, oldVnode: VNode, vnode: VNode | undefined,
+                                oldTarget: EventTarget | undefined, target: EventTarget | undefined): void {
+  var oldOn = (oldVnode.data as VNodeData)[key],
+      oldListener = (oldVnode as any)[listenerKey(key)],
+      on = vnode && (vnode.data as VNodeData)[key],
       name: string;
 
   // optimization for reused immutable handlers
@@ -67,13 +122,13 @@ function updateEventListeners(oldVnode: VNode, vnode?: VNode): void {
     if (!on) {
       for (name in oldOn) {
         // remove listener if element was changed or existing listeners removed
-        oldElm.removeEventListener(name, oldListener, false);
+        (oldTarget as EventTarget).removeEventListener(name, oldListener, captureOf(oldOn[name]));
       }
     } else {
       for (name in oldOn) {
-        // remove listener if existing listener removed
-        if (!on[name]) {
-          oldElm.removeEventListener(name, oldListener, false);
+        // remove listener if existing listener removed or its options changed
+        if (!on[name] || !sameOptions(oldOn[name], on[name])) {
+          (oldTarget as EventTarget).removeEventListener(name, oldListener, captureOf(oldOn[name]));
         }
       }
     }
@@ -82,7 +137,7 @@ function updateEventListeners(oldVnode: VNode, vnode?: VNode): void {
   // add new listeners which has not already attached
   if (on) {
     // reuse existing listener or create new
-    var listener = (vnode as any).listener = (oldVnode as any).listener || createListener();
+    var listener = (vnode as any)[listenerKey(key)] = oldListener || createListener(key);
     // update vnode for listener
     listener.vnode = vnode;
 
@@ -90,22 +145,27 @@ function updateEventListeners(oldVnode: VNode, vnode?: VNode): void {
     if (!oldOn) {
       for (name in on) {
         // add listener if element was changed or new listeners added
-        elm.addEventListener(name, listener, false);
+        (target as EventTarget).addEventListener(name, listener, listenerOptions(on[name]));
       }
     } else {
       for (name in on) {
-        // add listener if new listener added
-        if (!oldOn[name]) {
-          elm.addEventListener(name, listener, false);
+        // add listener if new listener added or its options changed
+        if (!oldOn[name] || !sameOptions(oldOn[name], on[name])) {
+          (target as EventTarget).addEventListener(name, listener, listenerOptions(on[name]));
         }
       }
     }
   }
 }
 
+function updateEventListeners(oldVnode: VNode, vnode?: VNode): void {
+  updateListeners("on", oldVnode, vnode, oldVnode.elm, vnode && vnode.elm);
+}
+
 export const eventListenersModule = {
   create: updateEventListeners,
   update: updateEventListeners,
-  destroy: updateEventListeners
+  destroy: updateEventListeners,
+  dataKeys: ['on']
 } as Module;
 export default eventListenersModule;
@@ -0,0 +1,138 @@
+import {VNode, VNodeData} from '../vnode';
+import {Module} from './module';
+import {timeoutMargin} from '../util';
+
+export type Flip = {
+  // Duration of the move in milliseconds, defaults to 300
+  duration?: number
+  easing?: string
+}
+
+interface Measured {
+  flip: Flip
+  children: Array<VNode>
+  rects: Record<string, ClientRect>
+}
+
+// Where the keyed children of the parents of a patch were before they moved
+interface Before {
+  elms: Array<Node>
+  rects: Array<Record<string, ClientRect>>
+  measured: Array<Measured>
+}
+
+function measure(vnode: VNode): Record<string, ClientRect> {
+  var i: number, ch: any,
+      children = vnode.children as Array<any>,
+      rects: Record<string, ClientRect> = {};
+
+  for (i = 0; i < children.length; ++i) {
+    ch = children[i];
+    if (ch != null && ch.key !== undefined && ch.elm && ch.elm.nodeType === 1) {
+      rects[ch.key] = (ch.elm as Element).getBoundingClientRect();
+    }
+  }
+  return rects;
+}
+
+function play(elm: any, dx: number, dy: number, flip: Flip): void {
+  var duration = flip.duration !== undefined ? flip.duration : 300,
+      easing = flip.easing || 'ease',
+      from = 'translate(' + dx + 'px, ' + dy + 'px)';
+
+  if (typeof elm.animate === 'function') {
+    // web animations don't touch the inline style of other transitions
+    elm.animate([{transform: from}, {transform: 'none'}], {duration: duration, easing: easing});
+    return;
+  }
+  var style = elm.style, transform = style.transform, transition = style.transition, moving: string, done = false;
+  // the move is added to the transitions of the element, a later
+  // transition of the same property overrides an earlier one
+  function withMove(move: string): string {
+    return transition ? transition + ', ' + move : move;
+  }
+  function restore() {
+    if (done) return;
+    done = true;
+    // unless the transition changed during the move
+    if (style.transition === moving) style.transition = transition;
+  }
+  style.transition = withMove('transform 0s');
+  style.transform = from + (transform ? ' ' + transform : '');
+  // force a reflow so the inverted position is rendered before the move
+  elm.offsetWidth;
+  style.transition = withMove('transform ' + duration + 'ms ' + easing);
+  moving = style.transition;
+  style.transform = transform;
+  elm.addEventListener('transitionend', function(ev: TransitionEvent) {
+    if (ev.target === elm && ev.propertyName === 'transform') restore();
+  });
+  setTimeout(restore, duration + timeoutMargin);
+}
+
+// Creates a flip module, every `init` needs its own as the module keeps
+// the measurements of the patches in progress
+export function createFlipModule(): Module {
+  // The measurements of each patch in progress, nested patches push theirs
+  var patches: Array<Before> = [];
+
+  function pre(): void {
+    patches.push({elms: [], rects: [], measured: []});
+  }
+
+  function isParent(vnode: any): boolean {
+    return vnode != null && vnode.data !== undefined && vnode.data.flip !== undefined && vnode.children !== undefined;
+  }
+
+  function measureOnce(before: Before, vnode: VNode): void {
+    if (before.elms.indexOf(vnode.elm as Node) !== -1) return;
+    before.elms.push(vnode.elm as Node);
+    before.rects.push(measure(vnode));
+  }
+
+  // Parents are measured when the vnode they are in is updated, before
+  // its children move, as later siblings of a moved element would
+  // already be out of place when their parent is updated
+  function update(oldVnode: VNode, vnode: VNode): void {
+    var i: number, before = patches[patches.length - 1],
+        children = oldVnode.children,
+        flip = (vnode.data as VNodeData).flip;
+
+    if (before === undefined) return;
+    if (children !== undefined) {
+      for (i = 0; i < children.length; ++i) {
+        if (isParent(children[i])) measureOnce(before, children[i] as VNode);
+      }
+    }
+    if (!flip || vnode.children === undefined || !isParent(oldVnode)) return;
+    measureOnce(before, oldVnode);
+    i = before.elms.indexOf(vnode.elm as Node);
+    before.measured.push({flip: flip, children: vnode.children as Array<VNode>, rects: before.rects[i]});
+  }
+
+  function post(): void {
+    var i: number, j: number, ch: any, old: ClientRect, rect: ClientRect, measured: Measured,
+        before = patches.pop();
+
+    if (!before) return;
+    for (i = 0; i < before.measured.length; ++i) {
+      measured = before.measured[i];
+      for (j = 0; j < measured.children.length; ++j) {
+        ch = measured.children[j];
+        if (ch == null || ch.key === undefined || !(old = measured.rects[ch.key])) continue;
+        rect = (ch.elm as Element).getBoundingClientRect();
+        if (old.left !== rect.left || old.top !== rect.top) {
+          play(ch.elm, old.left - rect.left, old.top - rect.top, measured.flip);
+        }
+      }
+    }
+  }
+
+  return {
+    pre: pre,
+    update: update,
+    post: post,
+    dataKeys: ['flip']
+  } as Module;
+}
+export default createFlipModule;
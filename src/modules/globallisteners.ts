@@ -0,0 +1,33 @@
+import {VNode} from '../vnode';
+import {Module} from './module';
+import {Listener, updateListeners} from './eventlisteners';
+
+export type OnWindow = {
+  [N in keyof WindowEventMap]?: ((ev: WindowEventMap[N]) => void) | Listener<WindowEventMap[N]>
+} & {
+  [event: string]: EventListener | Listener
+};
+
+export type OnDocument = {
+  [N in keyof DocumentEventMap]?: ((ev: DocumentEventMap[N]) => void) | Listener<DocumentEventMap[N]>
+} & {
+  [event: string]: EventListener | Listener
+};
+
+function updateGlobalListeners(oldVnode: VNode, vnode: VNode): void {
+  updateListeners("onWindow", oldVnode, vnode, window, window);
+  updateListeners("onDocument", oldVnode, vnode, document, document);
+}
+
+function removeGlobalListeners(vnode: VNode): void {
+  updateListeners("onWindow", vnode, undefined, window, undefined);
+  updateListeners("onDocument", vnode, undefined, document, undefined);
+}
+
+export const globalListenersModule = {
+  create: updateGlobalListeners,
+  update: updateGlobalListeners,
+  destroy: removeGlobalListeners,
+  dataKeys: ['onWindow', 'onDocument']
+} as Module;
+export default globalListenersModule;
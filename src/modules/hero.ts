@@ -1,15 +1,28 @@
 import {VNode, VNodeData} from '../vnode';
 import {Module} from './module';
+import {nextFrame, timeoutMargin, toMs} from '../util';
 
-export type Hero = { id: string }
-
-var raf = (typeof window !== 'undefined' && window.requestAnimationFrame) || setTimeout;
-var nextFrame = function(fn: any) { raf(function() { raf(fn); }); };
+export type Hero = {
+  id: string
+  // Override the duration and easing of the module for this hero
+  duration?: number
+  easing?: string
+}
 
-function setNextFrame(obj: any, prop: string, val: any): void {
-  nextFrame(function() { obj[prop] = val; });
+export interface HeroOptions {
+  // Duration of the transitions in milliseconds, without it the timing
+  // comes from the CSS transitions of the hero elements
+  duration?: number
+  easing?: string
+  // The element the old hero is animated in, defaults to `document.body`
+  container?: Element
 }
 
+// Inherited styles the old hero keeps once it is moved to the container
+var inheritedStyles = [
+  'color', 'fontFamily', 'fontSize', 'fontStyle', 'fontWeight', 'letterSpacing',
+  'lineHeight', 'textAlign', 'textTransform', 'whiteSpace', 'boxSizing'
+];
 function getTextNodeRect(textNode: Text): ClientRect | undefined {
   var rect: ClientRect | undefined;
   if (document.createRange) {
@@ -55,111 +68,192 @@ function isTextElement(elm: Element | Text): elm is Text {
   return elm.childNodes.length === 1 && elm.childNodes[0].nodeType === 3;
 }
 
-var removed: any, created: any;
+interface RemovedHero {
+  elm: HTMLElement
+  isTextNode: boolean
+  rect: ClientRect
+  textRect: ClientRect | undefined
+  style: Record<string, string>
+}
 
-function pre() {
-  removed = {};
-  created = [];
+interface HeroPatch {
+  removed: Record<string, RemovedHero>
+  created: Array<VNode>
 }
 
-function create(oldVnode: VNode, vnode: VNode): void {
-  var hero = (vnode.data as VNodeData).hero;
-  if (hero && hero.id) {
-    created.push(hero.id);
-    created.push(vnode);
+// The end of the longest CSS transition of an element
+function transitionEnd(elm: Element): number {
+  var i: number, end = 0, style = window.getComputedStyle(elm),
+      durations = (style.transitionDuration || '').split(','),
+      delays = (style.transitionDelay || '').split(',');
+  for (i = 0; i < durations.length; ++i) {
+    end = Math.max(end, toMs(durations[i]) + toMs(delays[i % delays.length]));
   }
+  return end;
 }
 
-function destroy(vnode: VNode): void {
-  var hero = (vnode.data as VNodeData).hero;
-  if (hero && hero.id) {
-    var elm = vnode.elm;
-    (vnode as any).isTextNode = isTextElement(elm as Element | Text); //is this a text node?
-    (vnode as any).boundingRect = (elm as Element).getBoundingClientRect(); //save the bounding rectangle to a new property on the vnode
-    (vnode as any).textRect = (vnode as any).isTextNode ? getTextNodeRect((elm as Element).childNodes[0] as Text) : null; //save bounding rect of inner text node
-    var computedStyle = window.getComputedStyle(elm as Element, void 0); //get current styles (includes inherited properties)
-    (vnode as any).savedStyle = JSON.parse(JSON.stringify(computedStyle)); //save a copy of computed style values
-    removed[hero.id] = vnode;
+// The scale of the ancestors of an element, from its size on screen
+function scaleOf(elm: HTMLElement, rect: ClientRect): number {
+  return elm.offsetWidth > 0 && rect.width > 0 ? rect.width / elm.offsetWidth : 1;
+}
+
+// Positions an absolutely positioned element in the container where the
+// rect is on screen, taking scrolling and transformed ancestors into account
+function placeAt(elm: HTMLElement, rect: ClientRect): void {
+  var style = elm.style, parent = elm.offsetParent as HTMLElement | null, top: number, left: number, scale = 1;
+  var parentStyle = parent ? window.getComputedStyle(parent) : undefined;
+  if (parent === null || (parent === document.body && parentStyle !== undefined &&
+                          parentStyle.position === 'static' && (!parentStyle.transform || parentStyle.transform === 'none'))) {
+    // positioned relative to the document
+    top = rect.top + window.pageYOffset;
+    left = rect.left + window.pageXOffset;
+  } else {
+    var parentRect = parent.getBoundingClientRect();
+    scale = scaleOf(parent, parentRect);
+    top = (rect.top - parentRect.top) / scale - parent.clientTop + parent.scrollTop;
+    left = (rect.left - parentRect.left) / scale - parent.clientLeft + parent.scrollLeft;
   }
+  style.position = 'absolute';
+  style.top = top + 'px';
+  style.left = left + 'px';
+  style.width = rect.width / scale + 'px';
+  style.height = rect.height / scale + 'px';
 }
 
-function post() {
-  var i: number, id: any, newElm: Element, oldVnode: VNode, oldElm: Element,
-      hRatio: number, wRatio: number,
-      oldRect: ClientRect, newRect: ClientRect, dx: number, dy: number,
-      origTransform: string | null, origTransition: string | null,
-      newStyle: CSSStyleDeclaration, oldStyle: CSSStyleDeclaration,
-      newComputedStyle: CSSStyleDeclaration, isTextNode: boolean,
-      newTextRect: ClientRect | undefined, oldTextRect: ClientRect | undefined;
-  for (i = 0; i < created.length; i += 2) {
-    id = created[i];
-    newElm = created[i+1].elm;
-    oldVnode = removed[id];
-    if (oldVnode) {
-      isTextNode = (oldVnode as any).isTextNode && isTextElement(newElm); //Are old & new both text?
-      newStyle = (newElm as HTMLElement).style;
-      newComputedStyle = window.getComputedStyle(newElm, void 0); //get full computed style for new element
-      oldElm = oldVnode.elm as Element;
-      oldStyle = (oldElm as HTMLElement).style;
-      //Overall element bounding boxes
-      newRect = newElm.getBoundingClientRect();
-      oldRect = (oldVnode as any).boundingRect; //previously saved bounding rect
-      //Text node bounding boxes & distances
-      if (isTextNode) {
-        newTextRect = getTextNodeRect(newElm.childNodes[0] as Text);
-        oldTextRect = (oldVnode as any).textRect;
-        dx = getTextDx(oldTextRect, newTextRect);
-        dy = getTextDy(oldTextRect, newTextRect);
-      } else {
-        //Calculate distances between old & new positions
-        dx = oldRect.left - newRect.left;
-        dy = oldRect.top - newRect.top;
-      }
-      hRatio = newRect.height / (Math.max(oldRect.height, 1));
-      wRatio = isTextNode ? hRatio : newRect.width / (Math.max(oldRect.width, 1)); //text scales based on hRatio
-      // Animate new element
-      origTransform = newStyle.transform;
-      origTransition = newStyle.transition;
-      if (newComputedStyle.display === 'inline') //inline elements cannot be transformed
-        newStyle.display = 'inline-block';        //this does not appear to have any negative side effects
-      newStyle.transition = origTransition + 'transform 0s';
-      newStyle.transformOrigin = calcTransformOrigin(isTextNode, newTextRect, newRect);
-      newStyle.opacity = '0';
-      newStyle.transform = origTransform + 'translate('+dx+'px, '+dy+'px) ' +
-                               'scale('+1/wRatio+', '+1/hRatio+')';
-      setNextFrame(newStyle, 'transition', origTransition);
-      setNextFrame(newStyle, 'transform', origTransform);
-      setNextFrame(newStyle, 'opacity', '1');
-      // Animate old element
-      for (var key in (oldVnode as any).savedStyle) { //re-apply saved inherited properties
-        if (parseInt(key) != key as any as number) {
-          var ms = key.substring(0,2) === 'ms';
-          var moz = key.substring(0,3) === 'moz';
-          var webkit = key.substring(0,6) === 'webkit';
-          if (!ms && !moz && !webkit) //ignore prefixed style properties
-            (oldStyle as any)[key] = (oldVnode as any).savedStyle[key];
-        }
-      }
-      oldStyle.position = 'absolute';
-      oldStyle.top = oldRect.top + 'px'; //start at existing position
-      oldStyle.left = oldRect.left + 'px';
-      oldStyle.width = oldRect.width + 'px'; //Needed for elements who were sized relative to their parents
-      oldStyle.height = oldRect.height + 'px'; //Needed for elements who were sized relative to their parents
-      oldStyle.margin = '0'; //Margin on hero element leads to incorrect positioning
-      oldStyle.transformOrigin = calcTransformOrigin(isTextNode, oldTextRect, oldRect);
-      oldStyle.transform = '';
-      oldStyle.opacity = '1';
-      document.body.appendChild(oldElm);
-      setNextFrame(oldStyle, 'transform', 'translate('+ -dx +'px, '+ -dy +'px) scale('+wRatio+', '+hRatio+')'); //scale must be on far right for translate to be correct
-      setNextFrame(oldStyle, 'opacity', '0');
-      oldElm.addEventListener('transitionend', function (ev: TransitionEvent) {
-        if (ev.propertyName === 'transform')
-          document.body.removeChild(ev.target as Node);
+// Creates a hero module, every `init` needs its own as the module keeps
+// track of the heroes removed and created in a patch and of running
+// transitions
+export function createHeroModule(options?: HeroOptions): Module {
+  var opts: HeroOptions = options || {},
+      patches: Array<HeroPatch> = [],
+      running: Array<() => void> = [];
+
+  function pre() {
+    // a new patch finishes the transitions still running
+    var finishing = running;
+    running = [];
+    for (var i = 0; i < finishing.length; ++i) finishing[i]();
+    patches.push({removed: {}, created: []});
+  }
+
+  function create(oldVnode: VNode, vnode: VNode): void {
+    var hero = (vnode.data as VNodeData).hero;
+    if (hero && hero.id && patches.length > 0) patches[patches.length - 1].created.push(vnode);
+  }
+
+  function destroy(vnode: VNode): void {
+    var i: number, hero = (vnode.data as VNodeData).hero, elm = vnode.elm as HTMLElement,
+        computed: CSSStyleDeclaration, style: Record<string, string> = {}, isTextNode: boolean;
+    if (!hero || !hero.id || patches.length === 0) return;
+    isTextNode = isTextElement(elm);
+    computed = window.getComputedStyle(elm);
+    for (i = 0; i < inheritedStyles.length; ++i) {
+      style[inheritedStyles[i]] = (computed as any)[inheritedStyles[i]];
+    }
+    patches[patches.length - 1].removed[hero.id] = {
+      elm: elm,
+      isTextNode: isTextNode,
+      rect: elm.getBoundingClientRect(),
+      textRect: isTextNode ? getTextNodeRect(elm.childNodes[0] as Text) : undefined,
+      style: style
+    };
+  }
+
+  function animate(old: RemovedHero, vnode: VNode): void {
+    var name: string, dx: number, dy: number, hRatio: number, wRatio: number,
+        newTextRect: ClientRect | undefined,
+        hero = (vnode.data as VNodeData).hero as Hero,
+        duration = hero.duration !== undefined ? hero.duration : opts.duration,
+        easing = hero.easing || opts.easing || 'ease',
+        container = opts.container || document.body,
+        newElm = vnode.elm as HTMLElement, oldElm = old.elm,
+        newStyle = newElm.style, oldStyle = oldElm.style,
+        isTextNode = old.isTextNode && isTextElement(newElm),
+        newRect = newElm.getBoundingClientRect(), oldRect = old.rect,
+        scale = scaleOf(newElm, newRect),
+        saved = {
+          display: newStyle.display, opacity: newStyle.opacity, transform: newStyle.transform,
+          transformOrigin: newStyle.transformOrigin, transition: newStyle.transition
+        },
+        finished = false, timer: any;
+
+    if (isTextNode) {
+      newTextRect = getTextNodeRect(newElm.childNodes[0] as Text);
+      dx = getTextDx(old.textRect, newTextRect);
+      dy = getTextDy(old.textRect, newTextRect);
+    } else {
+      dx = oldRect.left - newRect.left;
+      dy = oldRect.top - newRect.top;
+    }
+    // translations are in the coordinates of the transformed ancestors
+    dx /= scale;
+    dy /= scale;
+    hRatio = newRect.height / Math.max(oldRect.height, 1);
+    wRatio = isTextNode ? hRatio : newRect.width / Math.max(oldRect.width, 1); // text scales based on hRatio
+    var transition = duration !== undefined
+      ? 'transform ' + duration + 'ms ' + easing + ', opacity ' + duration + 'ms ' + easing
+      : undefined;
+
+    function finish() {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      if (oldElm.parentNode) oldElm.parentNode.removeChild(oldElm);
+      // jump to the end without transitions
+      newStyle.transition = 'none';
+      for (name in saved) (newStyle as any)[name] = (saved as any)[name];
+      newElm.offsetWidth;
+      newStyle.transition = saved.transition;
+    }
+
+    // Start the new hero where the old one was
+    if (window.getComputedStyle(newElm).display === 'inline') {
+      newStyle.display = 'inline-block'; // inline elements cannot be transformed
+    }
+    newStyle.transition = 'none';
+    newStyle.transformOrigin = calcTransformOrigin(isTextNode, newTextRect, newRect);
+    newStyle.opacity = '0';
+    newStyle.transform = (saved.transform ? saved.transform + ' ' : '') + 'translate(' + dx + 'px, ' + dy + 'px) ' +
+                         'scale(' + 1 / wRatio + ', ' + 1 / hRatio + ')';
+    // Put the old hero where it was
+    for (name in old.style) (oldStyle as any)[name] = old.style[name];
+    oldStyle.margin = '0'; // margin on hero element leads to incorrect positioning
+    oldStyle.transformOrigin = calcTransformOrigin(isTextNode, old.textRect, oldRect);
+    oldStyle.transform = '';
+    oldStyle.opacity = '1';
+    if (transition !== undefined) oldStyle.transition = 'none';
+    container.appendChild(oldElm);
+    placeAt(oldElm, oldRect);
+
+    running.push(finish);
+    nextFrame(function() {
+      if (finished) return;
+      newStyle.transition = transition !== undefined ? transition : saved.transition;
+      newStyle.transform = saved.transform;
+      newStyle.opacity = saved.opacity || '1';
+      if (transition !== undefined) oldStyle.transition = transition;
+      // scale must be on far right for translate to be correct
+      oldStyle.transform = 'translate(' + -dx * scale + 'px, ' + -dy * scale + 'px) scale(' + wRatio + ', ' + hRatio + ')';
+      oldStyle.opacity = '0';
+      oldElm.addEventListener('transitionend', function(ev: TransitionEvent) {
+        if (ev.target === oldElm && ev.propertyName === 'transform') finish();
       });
+      timer = setTimeout(finish, (duration !== undefined ? duration : transitionEnd(oldElm)) + timeoutMargin);
+    });
+  }
+
+  function post() {
+    var i: number, hero: Hero, old: RemovedHero, current = patches.pop();
+    if (!current) return;
+    for (i = 0; i < current.created.length; ++i) {
+      hero = (current.created[i].data as VNodeData).hero as Hero;
+      old = current.removed[hero.id];
+      if (old) animate(old, current.created[i]);
     }
   }
-  removed = created = undefined;
+
+  return {pre, create, destroy, post, dataKeys: ['hero']} as Module;
 }
 
-export const heroModule = {pre, create, destroy, post} as Module;
-export default heroModule;
\ No newline at end of file
+export const heroModule = createHeroModule();
+export default heroModule;
@@ -1,4 +1,4 @@
-import {PreHook, CreateHook, UpdateHook, DestroyHook, RemoveHook, PostHook} from '../hooks';
+import {PreHook, CreateHook, UpdateHook, DestroyHook, RemoveHook, PostHook, HTMLHook, HydrateHook} from '../hooks';
 
 export interface Module {
   pre: PreHook;
@@ -7,4 +7,10 @@ export interface Module {
   destroy: DestroyHook;
   remove: RemoveHook;
   post: PostHook;
+  html: HTMLHook;
+  // Copies the entries of the data that the server-rendered element
+  // already reflects to the old data, so only the rest is applied
+  hydrate: HydrateHook;
+  // Keys of the vnode data the module uses, checked in dev mode
+  dataKeys: Array<string>;
 }
\ No newline at end of file
@@ -27,5 +27,45 @@ function updateProps(oldVnode: VNode, vnode: VNode): void {
   }
 }
 
-export const propsModule = {create: updateProps, update: updateProps} as Module;
+// properties that are reflected by an attribute of another name
+const propToAttr: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for',
+  httpEquiv: 'http-equiv',
+  acceptCharset: 'accept-charset'
+};
+
+function propsToHTML(vnode: VNode, attributes: Record<string, string>): void {
+  var key: string, cur: any, name: string, props = (vnode.data as VNodeData).props;
+  if (!props) return;
+  for (key in props) {
+    cur = props[key];
+    // innerHTML and textContent become the element content, see tohtml.ts
+    if (key === 'innerHTML' || key === 'textContent' || cur == null || cur === false) continue;
+    if (typeof cur === 'object' || typeof cur === 'function') continue;
+    name = propToAttr[key] || key.toLowerCase();
+    if (name === 'class' && attributes['class']) {
+      attributes['class'] += ' ' + cur;
+    } else {
+      attributes[name] = cur === true ? '' : String(cur);
+    }
+  }
+}
+
+function hydrateProps(vnode: VNode, oldData: VNodeData): void {
+  var key: string, elm: any = vnode.elm, props = (vnode.data as VNodeData).props, matched: Props;
+  if (!props) return;
+  matched = oldData.props = {};
+  for (key in props) {
+    if (elm[key] === props[key]) matched[key] = props[key];
+  }
+}
+
+export const propsModule = {
+  create: updateProps,
+  update: updateProps,
+  html: propsToHTML,
+  hydrate: hydrateProps,
+  dataKeys: ['props']
+} as Module;
 export default propsModule;
\ No newline at end of file
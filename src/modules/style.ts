@@ -1,14 +1,19 @@
 import {VNode, VNodeData} from '../vnode';
 import {Module} from './module';
+import {nextFrame, timeoutMargin, toMs} from '../util';
+
+export interface KeyframeAnimation {
+  keyframes: Keyframe[] | PropertyIndexedKeyframes
+  options?: number | KeyframeAnimationOptions
+}
 
 export type VNodeStyle = Record<string, string> & {
   delayed?: Record<string, string>
   remove?: Record<string, string>
+  // Web Animations run when the element is created and removed
+  keyframes?: {enter?: KeyframeAnimation, remove?: KeyframeAnimation}
 }
 
-// Bindig `requestAnimationFrame` like this fixes a bug in IE/Edge. See #360 and #409.
-var raf = (typeof window !== 'undefined' && (window.requestAnimationFrame).bind(window)) || setTimeout;
-var nextFrame = function(fn: any) { raf(function() { raf(fn); }); };
 var reflowForced = false;
 
 function setNextFrame(obj: any, prop: string, val: any): void {
@@ -44,7 +49,7 @@ function updateStyle(oldVnode: VNode, vnode: VNode): void {
           setNextFrame((elm as any).style, name2, cur);
         }
       }
-    } else if (name !== 'remove' && cur !== oldStyle[name]) {
+    } else if (name !== 'remove' && name !== 'keyframes' && cur !== oldStyle[name]) {
       if (name[0] === '-' && name[1] === '-') {
         (elm as any).style.setProperty(name, cur);
       } else {
@@ -54,6 +59,35 @@ function updateStyle(oldVnode: VNode, vnode: VNode): void {
   }
 }
 
+function createStyle(oldVnode: VNode, vnode: VNode): void {
+  var elm: any = vnode.elm, s = (vnode.data as VNodeData).style, enter: KeyframeAnimation | undefined,
+      oldStyle = oldVnode.data !== undefined ? oldVnode.data.style : undefined;
+  updateStyle(oldVnode, vnode);
+  // a hydrated element is on screen already, its old style has the keyframes
+  if (oldStyle && oldStyle.keyframes) return;
+  if (s && s.keyframes && (enter = s.keyframes.enter) && typeof elm.animate === 'function') {
+    elm.animate(enter.keyframes, enter.options);
+  }
+}
+
+function toList(value: string | null): Array<string> {
+  return (value || '').split(',').map(function(item) { return item.trim(); });
+}
+
+// The end of the i-th transition or animation in the computed style, the
+// shorter lists are repeated like the browser does
+function endTime(durations: Array<string>, delays: Array<string>, i: number, iterations?: Array<string>): number {
+  var count = iterations ? parseFloat(iterations[i % iterations.length]) : 1;
+  // infinite animations are waited for one iteration
+  if (isNaN(count)) count = 1;
+  return toMs(delays[i % delays.length]) + toMs(durations[i % durations.length]) * count;
+}
+
+function animationEndTime(animation: any): number {
+  var timing = animation.effect && animation.effect.getComputedTiming ? animation.effect.getComputedTiming() : undefined;
+  return timing && typeof timing.endTime === 'number' && isFinite(timing.endTime) ? timing.endTime : 0;
+}
+
 function applyDestroyStyle(vnode: VNode): void {
   var style: any, name: string, elm = vnode.elm, s = (vnode.data as VNodeData).style;
   if (!s || !(style = s.destroy)) return;
@@ -63,8 +97,9 @@ function applyDestroyStyle(vnode: VNode): void {
 }
 
 function applyRemoveStyle(vnode: VNode, rm: () => void): void {
-  var s = (vnode.data as VNodeData).style;
-  if (!s || !s.remove) {
+  var s = (vnode.data as VNodeData).style,
+      keyframes = s && s.keyframes ? s.keyframes.remove : undefined;
+  if (!s || (!s.remove && !keyframes)) {
     rm();
     return;
   }
@@ -72,32 +107,114 @@ function applyRemoveStyle(vnode: VNode, rm: () => void): void {
     getComputedStyle(document.body).transform;
     reflowForced = true;
   }
-  var name: string, elm = vnode.elm, i = 0, compStyle: CSSStyleDeclaration,
-      style = s.remove, amount = 0, applied: Array<string> = [];
+  var name: string, elm: any = vnode.elm, i = 0, j: number, end: number, compStyle: CSSStyleDeclaration,
+      style = s.remove || {}, pending = 0, timeout = 0, applied: Array<string> = [],
+      timer: any, removed = false;
+  function remove() {
+    if (removed) return;
+    removed = true;
+    clearTimeout(timer);
+    rm();
+  }
+  function ended() {
+    if (--pending === 0) remove();
+  }
   for (name in style) {
-    applied.push(name);
-    (elm as any).style[name] = style[name];
+    applied.push(name.replace(/[A-Z]/g, '-$&').toLowerCase());
+    elm.style[name] = style[name];
   }
   compStyle = getComputedStyle(elm as Element);
-  var props = (compStyle as any)['transition-property'].split(', ');
-  for (; i < props.length; ++i) {
-    if(applied.indexOf(props[i]) !== -1) amount++;
+  // wait for a transition of every applied property that has one
+  var props = toList(compStyle.transitionProperty),
+      durations = toList(compStyle.transitionDuration),
+      delays = toList(compStyle.transitionDelay);
+  for (; i < applied.length; ++i) {
+    for (j = props.length - 1; j >= 0; --j) {
+      if (props[j] === applied[i] || props[j] === 'all') break;
+    }
+    if (j >= 0 && (end = endTime(durations, delays, j)) > 0) {
+      pending++;
+      timeout = Math.max(timeout, end);
+    }
   }
-  (elm as Element).addEventListener('transitionend', function (ev: TransitionEvent) {
-    if (ev.target === elm) --amount;
-    if (amount === 0) rm();
+  // and for every CSS animation
+  var names = toList(compStyle.animationName);
+  durations = toList(compStyle.animationDuration);
+  delays = toList(compStyle.animationDelay);
+  var iterations = toList(compStyle.animationIterationCount);
+  for (i = 0; i < names.length; ++i) {
+    if (names[i] !== '' && names[i] !== 'none' && (end = endTime(durations, delays, i, iterations)) > 0) {
+      pending++;
+      timeout = Math.max(timeout, end);
+    }
+  }
+  if (keyframes && typeof elm.animate === 'function') {
+    var animation = elm.animate(keyframes.keyframes, keyframes.options);
+    pending++;
+    timeout = Math.max(timeout, animationEndTime(animation));
+    animation.onfinish = ended;
+    animation.oncancel = ended;
+  }
+  if (pending === 0) {
+    remove();
+    return;
+  }
+  elm.addEventListener('transitionend', function (ev: TransitionEvent) {
+    if (ev.target === elm && applied.indexOf(ev.propertyName) !== -1) ended();
+  });
+  elm.addEventListener('animationend', function (ev: AnimationEvent) {
+    if (ev.target === elm) ended();
   });
+  timer = setTimeout(remove, timeout + timeoutMargin);
+}
+
+function styleToHTML(vnode: VNode, attributes: Record<string, string>): void {
+  var name: string, style = (vnode.data as VNodeData).style, rules: Array<string> = [];
+  if (!style) return;
+  // delayed, remove and destroy styles only apply once the element is in the DOM
+  for (name in style) {
+    if (name === 'delayed' || name === 'remove' || name === 'destroy' || name === 'keyframes' || !style[name]) continue;
+    if (name[0] === '-' && name[1] === '-') {
+      rules.push(name + ': ' + style[name]);
+    } else {
+      rules.push(name.replace(/[A-Z]/g, '-$&').toLowerCase() + ': ' + style[name]);
+    }
+  }
+  if (rules.length === 0) return;
+  if (attributes['style']) rules.unshift(attributes['style']);
+  attributes['style'] = rules.join('; ');
 }
 
 function forceReflow() {
   reflowForced = false;
 }
 
+function hydrateStyle(vnode: VNode, oldData: VNodeData): void {
+  var name: string, cur: any, elm: any = vnode.elm, style = (vnode.data as VNodeData).style,
+      matched: any;
+  if (!style || elm.style === undefined) return;
+  matched = oldData.style = {};
+  for (name in style) {
+    // transitions of later phases are not reflected by the element
+    if (name === 'delayed' || name === 'remove' || name === 'destroy') continue;
+    // the element has entered already, so its enter animation is skipped
+    if (name === 'keyframes') {
+      matched.keyframes = style.keyframes;
+      continue;
+    }
+    cur = name[0] === '-' && name[1] === '-' ? elm.style.getPropertyValue(name) : elm.style[name];
+    if (cur === style[name]) matched[name] = cur;
+  }
+}
+
 export const styleModule = {
   pre: forceReflow,
-  create: updateStyle,
+  create: createStyle,
   update: updateStyle,
   destroy: applyDestroyStyle,
-  remove: applyRemoveStyle
+  remove: applyRemoveStyle,
+  html: styleToHTML,
+  hydrate: hydrateStyle,
+  dataKeys: ['style']
 } as Module;
 export default styleModule;
@@ -0,0 +1,72 @@
+import {DOMAPI} from './htmldomapi';
+
+export interface ModuleHookTimes {
+  create: number;
+  update: number;
+  destroy: number;
+}
+
+export interface PatchProfile {
+  // Milliseconds the whole patch took
+  duration: number;
+  // Vnodes for which DOM nodes were created
+  created: number;
+  // Vnodes moved to another position among their siblings
+  moved: number;
+  // Vnodes removed from the DOM together with their descendants
+  removed: number;
+  // Old and new vnodes compared by patchVnode
+  patched: number;
+  // Calls per DOMAPI method
+  domOps: Record<string, number>;
+  // Milliseconds spent in the hooks of each module, in the order they
+  // were passed to init
+  modules: Array<ModuleHookTimes>;
+  // Milliseconds spent in the user hooks of vnodes, by hook name
+  hooks: Record<string, number>;
+  // Thunks whose arguments were unchanged and thunks that re-rendered
+  thunkHits: number;
+  thunkMisses: number;
+}
+
+export type ProfileHandler = (profile: PatchProfile) => void;
+
+export function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+export function createProfile(moduleCount: number): PatchProfile {
+  const modules: Array<ModuleHookTimes> = [];
+  for (let i = 0; i < moduleCount; ++i) modules.push({create: 0, update: 0, destroy: 0});
+  return {
+    duration: 0,
+    created: 0,
+    moved: 0,
+    removed: 0,
+    patched: 0,
+    domOps: {},
+    modules: modules,
+    hooks: {init: 0, create: 0, insert: 0, prepatch: 0, update: 0, postpatch: 0, destroy: 0, remove: 0},
+    thunkHits: 0,
+    thunkMisses: 0
+  };
+}
+
+function countCalls(api: any, name: string, current: () => PatchProfile | undefined): Function {
+  return function() {
+    const profile = current();
+    if (profile !== undefined) profile.domOps[name] = (profile.domOps[name] || 0) + 1;
+    return api[name].apply(api, arguments);
+  };
+}
+
+// Wraps every method of a DOMAPI to count its calls in the profile of
+// the running patch
+export function profileDomApi(api: DOMAPI, current: () => PatchProfile | undefined): DOMAPI {
+  let name: string;
+  const profiled: any = {};
+  for (name in api) {
+    profiled[name] = countCalls(api, name, current);
+  }
+  return profiled as DOMAPI;
+}
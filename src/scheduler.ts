@@ -0,0 +1,80 @@
+import {VNode} from './vnode';
+import {Patch} from './snabbdom';
+import {requestAnimationFrame} from './util';
+
+export type Priority = 'normal' | 'urgent';
+
+export interface SchedulerOptions {
+  // Schedules normal renders, defaults to `requestAnimationFrame`
+  requestFrame?: (callback: () => void) => any;
+}
+
+export interface Scheduler {
+  // Requests rendering `vnode`, replacing vnodes requested before. The
+  // promise resolves once the patch, including its post hooks, is done.
+  render(vnode: VNode, priority?: Priority): Promise<VNode>;
+  // Patches the pending vnode right away
+  flush(): void;
+}
+
+interface Waiting {
+  resolve: (vnode: VNode) => void;
+  reject: (error: any) => void;
+}
+
+// Coalesces render requests so that `patch` is called at most once per
+// flush with the latest vnode. Normal renders are flushed in the next
+// animation frame, urgent ones in a microtask.
+export function createScheduler(patch: Patch, container: Element | VNode, options?: SchedulerOptions): Scheduler {
+  let current = container, pending: VNode | undefined, waiting: Array<Waiting> = [];
+  let frameRequested = false, microtaskRequested = false;
+  const requestFrame = options !== undefined && options.requestFrame !== undefined ? options.requestFrame
+                                                                                  : requestAnimationFrame;
+
+  function flush(): void {
+    let i: number;
+    if (pending === undefined) return;
+    const vnode = pending, callbacks = waiting;
+    pending = undefined;
+    waiting = [];
+    try {
+      current = patch(current, vnode);
+    } catch (error) {
+      for (i = 0; i < callbacks.length; ++i) callbacks[i].reject(error);
+      return;
+    }
+    for (i = 0; i < callbacks.length; ++i) callbacks[i].resolve(vnode);
+  }
+
+  function flushFrame(): void {
+    frameRequested = false;
+    flush();
+  }
+
+  function flushMicrotask(): void {
+    microtaskRequested = false;
+    flush();
+  }
+
+  function render(vnode: VNode, priority?: Priority): Promise<VNode> {
+    pending = vnode;
+    const promise = new Promise<VNode>(function(resolve, reject) {
+      waiting.push({resolve: resolve, reject: reject});
+    });
+    if (priority === 'urgent') {
+      // Preempts a normal render waiting for the next frame
+      if (!microtaskRequested) {
+        microtaskRequested = true;
+        Promise.resolve().then(flushMicrotask);
+      }
+    } else if (!frameRequested) {
+      frameRequested = true;
+      requestFrame(flushFrame);
+    }
+    return promise;
+  }
+
+  return {render, flush};
+}
+
+export default createScheduler;
@@ -0,0 +1,163 @@
+import {htmlNS} from './util';
+
+export interface Selector {
+  tag: string;
+  id: string | undefined;
+  className: string | undefined;
+  // attributes given in brackets, such as `[type=checkbox]`, `[disabled]` is the empty string
+  attrs: Record<string, string> | undefined;
+}
+
+// Characters that end a tag, id, class or attribute name unless escaped
+const delimiters: Record<string, boolean> = {'#': true, '.': true, '[': true, ']': true, '=': true};
+
+// Parses a selector, parts that are not valid are skipped or, if `strict`
+// is set, throw
+export function parseSelector(sel: string, strict?: boolean): Selector {
+  const selector: Selector = {tag: '', id: undefined, className: undefined, attrs: undefined};
+  const classes: Array<string> = [];
+  let i = 0, c: string, key: string;
+
+  function invalid(message: string): void {
+    if (strict) throw new Error('Invalid selector "' + sel + '": ' + message);
+  }
+
+  // Tags, ids and classes can not be empty or contain whitespace
+  function checkName(s: string, kind: string): string {
+    if (s === '') invalid('empty ' + kind);
+    else if (/\s/.test(s)) invalid('whitespace in the ' + kind + ' "' + s + '"');
+    return s;
+  }
+
+  // Reads up to the next delimiter, a backslash escapes the next character
+  function name(end: Record<string, boolean>): string {
+    let s = '', start = i;
+    for (; i < sel.length && end[sel[i]] !== true; ++i) {
+      if (sel[i] === '\\') {
+        s += sel.slice(start, i);
+        start = ++i;
+      }
+    }
+    return s + sel.slice(start, i);
+  }
+
+  function value(): string {
+    const quote = sel[i];
+    if (quote !== '"' && quote !== "'") return name(delimiters).trim();
+    const end: Record<string, boolean> = {};
+    end[quote] = true;
+    i++;
+    const s = name(end);
+    if (i === sel.length) invalid('unterminated quote');
+    i++;
+    return s;
+  }
+
+  selector.tag = checkName(name(delimiters), 'tag');
+  while (i < sel.length) {
+    c = sel[i++];
+    if (c === '#') {
+      if (selector.id !== undefined) invalid('more than one id');
+      selector.id = checkName(name(delimiters), 'id');
+    } else if (c === '.') {
+      if (checkName(key = name(delimiters), 'class') !== '') classes.push(key);
+    } else if (c === '[') {
+      key = name(delimiters).trim();
+      if (key === '') invalid('attribute without a name');
+      if (sel[i] === '=') {
+        i++;
+        while (sel[i] === ' ') i++;
+        c = value();
+      } else {
+        c = '';
+      }
+      while (sel[i] === ' ') i++;
+      if (sel[i] !== ']') invalid(i < sel.length ? 'unexpected "' + sel[i] + '" in an attribute' : 'unterminated attribute');
+      while (i < sel.length && sel[i] !== ']') i++;
+      i++;
+      if (key !== '') (selector.attrs || (selector.attrs = {}))[key] = c;
+    } else {
+      invalid('unexpected "' + c + '"');
+    }
+  }
+  if (classes.length > 0) selector.className = classes.join(' ');
+  return selector;
+}
+
+function escapeName(name: string): string {
+  return name.replace(/[#.[\]=\\]/g, '\\$&');
+}
+
+// Writes a selector as `tag#id.class[name="value"]`, classes and
+// attributes in the order they were given
+export function selectorToString(selector: Selector): string {
+  let key: string, sel = escapeName(selector.tag);
+  const attrs = selector.attrs;
+  if (selector.id !== undefined) sel += '#' + escapeName(selector.id);
+  if (selector.className !== undefined) {
+    const classes = selector.className.split(/\s+/);
+    for (let i = 0; i < classes.length; ++i) {
+      if (classes[i] !== '') sel += '.' + escapeName(classes[i]);
+    }
+  }
+  for (key in attrs) {
+    const value = (attrs as Record<string, string>)[key];
+    sel += value === '' ? '[' + escapeName(key) + ']'
+                        : '[' + escapeName(key) + '="' + value.replace(/["\\]/g, '\\$&') + '"]';
+  }
+  return sel;
+}
+
+// Returns the canonical form of a selector, so that selectors which
+// describe the same element compare equal
+export function canonicalSelector(sel: string): string {
+  return isCanonical(sel) ? sel : selectorToString(parseSelector(sel));
+}
+
+// Whether a selector has no attributes or escapes and its id comes
+// before the classes. Most selectors do, so `h` can skip parsing them.
+// A loop over the characters is cheaper than a regular expression.
+function isCanonical(sel: string): boolean {
+  let c: string, dot = false, hash = false;
+  for (let i = 0; i < sel.length; ++i) {
+    c = sel[i];
+    if (c === '[' || c === ']' || c === '=' || c === '\\') return false;
+    if (c === '#' || c === '.') {
+      // an empty name, a second id or an id after a class
+      if (i + 1 === sel.length || sel[i + 1] === '#' || sel[i + 1] === '.') return false;
+      if (c === '.') {
+        dot = true;
+      } else if (hash || dot) {
+        return false;
+      } else {
+        hash = true;
+      }
+    }
+  }
+  return true;
+}
+
+// Returns the canonical selector of an existing element, the tags of
+// elements that are not in the HTML namespace keep their case
+export function elementSelector(tag: string, id: string | null, className: string | null,
+                                ns?: string | null): string {
+  return selectorToString({
+    tag: ns == null || ns === htmlNS ? tag.toLowerCase() : tag,
+    id: id ? id : undefined,
+    className: className ? className : undefined,
+    attrs: undefined
+  });
+}
+
+// Selectors of the same element that only differ in their attributes are
+// the same, the attributes are updated like those of the attributes module
+export function sameSelector(sel1: string | undefined, sel2: string | undefined): boolean {
+  if (sel1 === sel2) return true;
+  if (sel1 === undefined || sel2 === undefined) return false;
+  if (sel1.indexOf('[') === -1 && sel2.indexOf('[') === -1) return false;
+  const selector1 = parseSelector(sel1), selector2 = parseSelector(sel2);
+  return selector1.tag === selector2.tag && selector1.id === selector2.id &&
+    selector1.className === selector2.className;
+}
+
+export default parseSelector;
@@ -0,0 +1,164 @@
+import vnode, {VNode, VNodeData} from './vnode';
+import {thunk} from './thunk';
+import {component} from './component';
+
+// Incremented when the format changes in a way older readers do not understand
+export const formatVersion = 1;
+
+// Functions are referenced by their name in a registry
+export type HandlerRegistry = Record<string, Function>;
+
+export interface HandlerRef {
+  $fn: string;
+}
+
+export interface SerializedVNode {
+  sel?: string;
+  data?: Record<string, any>;
+  children?: Array<SerializedVNode | string | null>;
+  text?: string;
+}
+
+export interface SerializedTree {
+  version: number;
+  vnode: SerializedVNode;
+}
+
+// Data keys holding state created while patching, such as the instance of
+// a component and the pending load of a lazy vnode
+const runtimeKeys: Record<string, boolean> = {instance: true, pending: true};
+
+function isNode(value: any): boolean {
+  return typeof Node !== 'undefined' && value instanceof Node;
+}
+
+function handlerName(fn: Function, registry: HandlerRegistry): string {
+  for (let name in registry) {
+    if (registry[name] === fn) return name;
+  }
+  throw new Error('Function ' + ((fn as any).name || '<anonymous>') + ' is not in the handler registry');
+}
+
+// Encodes a value of the data, functions become references and DOM nodes
+// are dropped
+function encode(value: any, registry: HandlerRegistry): any {
+  let i: number, key: string, result: any;
+  if (typeof value === 'function') return {$fn: handlerName(value, registry)};
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) {
+    result = [];
+    for (i = 0; i < value.length; ++i) {
+      result.push(value[i] === undefined || isNode(value[i]) ? null : encode(value[i], registry));
+    }
+    return result;
+  }
+  result = {};
+  for (key in value) {
+    if (value[key] !== undefined && !isNode(value[key])) result[key] = encode(value[key], registry);
+  }
+  return result;
+}
+
+function decode(value: any, registry: HandlerRegistry): any {
+  let i: number, key: string, result: any;
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) {
+    result = [];
+    for (i = 0; i < value.length; ++i) result.push(decode(value[i], registry));
+    return result;
+  }
+  if (typeof value.$fn === 'string') {
+    if (typeof registry[value.$fn] !== 'function') {
+      throw new Error('Handler "' + value.$fn + '" is not in the handler registry');
+    }
+    return registry[value.$fn];
+  }
+  result = {};
+  for (key in value) result[key] = decode(value[key], registry);
+  return result;
+}
+
+function isThunk(data: VNodeData | undefined): boolean {
+  return data !== undefined && typeof data.fn === 'function' && Array.isArray(data.args);
+}
+
+// Thunks and components are written with the data they are created from,
+// their hooks and what they rendered are recreated when they are read
+function serializeCreated(node: VNode, registry: HandlerRegistry): SerializedVNode {
+  const data = node.data as VNodeData;
+  if (data.component !== undefined) {
+    return {data: encode({key: node.key, component: data.component}, registry)};
+  }
+  return {sel: node.sel, data: encode({key: node.key, fn: data.fn, args: data.args, thunk: data.thunk}, registry)};
+}
+
+function encodeData(data: VNodeData, registry: HandlerRegistry): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (let key in data) {
+    if (runtimeKeys[key] !== true && (data as any)[key] !== undefined && !isNode((data as any)[key])) {
+      result[key] = encode((data as any)[key], registry);
+    }
+  }
+  return result;
+}
+
+function serializeVnode(node: VNode | string, registry: HandlerRegistry): SerializedVNode | string | null {
+  if (node == null) return null;
+  if (typeof node === 'string') return node;
+  if (isThunk(node.data) || (node.data !== undefined && node.data.component !== undefined)) {
+    return serializeCreated(node, registry);
+  }
+  const result: SerializedVNode = {};
+  if (node.sel !== undefined) result.sel = node.sel;
+  if (node.data !== undefined) result.data = encodeData(node.data, registry);
+  if (node.key !== undefined && (result.data === undefined || result.data.key === undefined)) {
+    (result.data || (result.data = {})).key = node.key;
+  }
+  if (node.children !== undefined) {
+    result.children = [];
+    for (let i = 0; i < node.children.length; ++i) {
+      result.children.push(serializeVnode(node.children[i], registry));
+    }
+  }
+  if (node.text !== undefined) result.text = node.text;
+  return result;
+}
+
+function deserializeVnode(node: SerializedVNode | string | null, registry: HandlerRegistry): any {
+  if (node === null || typeof node === 'string') return node;
+  let children: Array<VNode | string> | undefined;
+  if (node.children !== undefined) {
+    children = [];
+    for (let i = 0; i < node.children.length; ++i) {
+      children.push(deserializeVnode(node.children[i], registry));
+    }
+  }
+  const data = node.data !== undefined ? decode(node.data, registry) : undefined;
+  if (isThunk(data)) return thunk(node.sel as string, data.key, data.fn, data.args, data.thunk);
+  if (data !== undefined && data.component !== undefined) {
+    return component(data.component.patch, data.component.spec)(data.component.props, data.key);
+  }
+  return vnode(node.sel, data, children, node.text, undefined);
+}
+
+// Converts a vnode tree to JSON-compatible data. Elements and state of
+// components and lazy vnodes are left out, the functions of handlers,
+// hooks and thunks must be in the registry.
+export function serialize(vnode: VNode, registry?: HandlerRegistry): SerializedTree {
+  return {
+    version: formatVersion,
+    vnode: serializeVnode(vnode, registry !== undefined ? registry : {}) as SerializedVNode
+  };
+}
+
+// Converts serialized data, or its JSON string, back to a vnode tree that
+// can be patched or rendered
+export function deserialize(json: SerializedTree | string, registry?: HandlerRegistry): VNode {
+  const tree: SerializedTree = typeof json === 'string' ? JSON.parse(json) : json;
+  if (tree === null || typeof tree !== 'object' || tree.version !== formatVersion) {
+    throw new Error('Unsupported vnode format version ' + (tree !== null && typeof tree === 'object' ? tree.version : tree));
+  }
+  return deserializeVnode(tree.vnode, registry !== undefined ? registry : {});
+}
+
+export default serialize;
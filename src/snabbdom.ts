@@ -3,21 +3,70 @@ import {Module} from './modules/module';
 import {Hooks} from './hooks';
 import vnode, {VNode, VNodeData, Key} from './vnode';
 import * as is from './is';
+import {requestAnimationFrame} from './util';
 import htmlDomApi, {DOMAPI} from './htmldomapi';
+import {parseSelector, elementSelector, sameSelector} from './selector';
+import {DevReporter, createDevChecker} from './dev';
+import {Boundary, ErrorContext, reportError} from './helpers/boundary';
+import {PortalData} from './helpers/portal';
+import {PatchProfile, ProfileHandler, createProfile, now, profileDomApi} from './profile';
 
 function isUndef(s: any): boolean { return s === undefined; }
 function isDef(s: any): boolean { return s !== undefined; }
 
-type VNodeQueue = Array<VNode>;
+// Vnodes whose insert hooks are due, an error boundary replaces those of
+// its children by a function that calls them
+type VNodeQueue = Array<VNode | (() => void)>;
+
+// Vnodes created and destroyed during an attempt that may fail, so that
+// a failed attempt can destroy each of them exactly once
+interface Attempt {
+  created: Array<VNode>;
+  destroyed: Array<VNode>;
+}
+
+// Patch of an old and a new vnode that a sliced patch defers. Its
+// operations and inserted vnodes are nested into those of its parent at
+// the position a synchronous patch would have handled them.
+interface SliceUnit {
+  oldVnode: VNode;
+  vnode: VNode;
+  // The element the DOM nodes of the vnode are in, unknown for the root
+  parentElm: Node | undefined;
+  ops: Array<any>;
+  queue: Array<any>;
+}
 
 const emptyNode = vnode('', {}, [], undefined, undefined);
 
+function isFragment(vnode: VNode): boolean {
+  return vnode.sel === undefined && vnode.children !== undefined;
+}
+
+// A fragment whose children are in the target of the portal
+function isPortal(vnode: VNode): boolean {
+  return isFragment(vnode) && vnode.data !== undefined && vnode.data.portal !== undefined;
+}
+
 function sameVnode(vnode1: VNode, vnode2: VNode): boolean {
-  return vnode1.key === vnode2.key && vnode1.sel === vnode2.sel;
+  return vnode1.key === vnode2.key && sameSelector(vnode1.sel, vnode2.sel) &&
+    (vnode1.sel !== undefined || (isFragment(vnode1) === isFragment(vnode2) && isPortal(vnode1) === isPortal(vnode2)));
 }
 
 function isVnode(vnode: any): vnode is VNode {
-  return vnode.sel !== undefined;
+  return vnode.sel !== undefined || is.array(vnode.children);
+}
+
+// The last DOM node of the range a vnode occupies
+function lastNode(vnode: VNode): Node {
+  let i: number, ch;
+  if (isFragment(vnode) && !isPortal(vnode)) {
+    for (i = (vnode.children as Array<VNode>).length - 1; i >= 0; --i) {
+      ch = (vnode.children as Array<VNode>)[i];
+      if (ch != null) return lastNode(ch);
+    }
+  }
+  return vnode.elm as Node;
 }
 
 type KeyToIndexMap = {[key: string]: number};
@@ -40,30 +89,256 @@ function createKeyToOldIdx(children: Array<VNode>, beginIdx: number, endIdx: num
   return map;
 }
 
-const hooks: (keyof Module)[] = ['create', 'update', 'remove', 'destroy', 'pre', 'post'];
+// Positions in `arr` of the longest increasing subsequence of its
+// non-negative entries
+function longestIncreasingSubsequence(arr: Array<number>): Array<number> {
+  let i: number, lo: number, hi: number, mid: number, k: number;
+  const predecessors: Array<number> = new Array(arr.length);
+  const result: Array<number> = [];
+  for (i = 0; i < arr.length; ++i) {
+    if (arr[i] < 0) continue;
+    if (result.length === 0 || arr[result[result.length - 1]] < arr[i]) {
+      predecessors[i] = result.length > 0 ? result[result.length - 1] : -1;
+      result.push(i);
+      continue;
+    }
+    lo = 0;
+    hi = result.length - 1;
+    while (lo < hi) {
+      mid = (lo + hi) >> 1;
+      if (arr[result[mid]] < arr[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    predecessors[i] = lo > 0 ? result[lo - 1] : -1;
+    result[lo] = i;
+  }
+  for (i = result.length - 1, k = result[i]; i >= 0; --i) {
+    result[i] = k;
+    k = predecessors[k];
+  }
+  return result;
+}
+
+// Runs the operations deferred by a sliced patch in order
+function runOps(ops: Array<any>): void {
+  for (let i = 0; i < ops.length; ++i) {
+    if (is.array(ops[i])) runOps(ops[i]);
+    else ops[i]();
+  }
+}
+
+function flattenQueue(queue: Array<any>, result: VNodeQueue): VNodeQueue {
+  for (let i = 0; i < queue.length; ++i) {
+    if (is.array(queue[i])) flattenQueue(queue[i], result);
+    else result.push(queue[i]);
+  }
+  return result;
+}
+
+const hooks: (keyof Module)[] = ['create', 'update', 'remove', 'destroy', 'pre', 'post', 'hydrate'];
+
+export type HydrationMismatchHandler = (message: string, vnode: VNode | undefined, node: Node | undefined) => void;
+
+export interface Patch {
+  (oldVnode: VNode | Element, vnode: VNode): VNode;
+  hydrate(elm: Element, vnode: VNode, onMismatch?: HydrationMismatchHandler): VNode;
+  sliced(oldVnode: VNode | Element, vnode: VNode, options?: SliceOptions): SlicedPatch;
+}
+
+// The promise of a sliced patch
+export interface SlicedPatch extends Promise<VNode> {
+  // Stops the patch before it commits and rejects the promise, the DOM
+  // and the old vnode are left as they were
+  cancel(): void;
+}
+
+// A sliced patch that has not committed yet
+interface PendingSlice {
+  elm: Node | undefined;
+  stop: (error: Error) => void;
+}
+
+export interface SliceOptions {
+  // Milliseconds of work before yielding, defaults to 8
+  budget?: number;
+  // Schedules the next chunk of work, defaults to `requestAnimationFrame`
+  requestFrame?: (callback: () => void) => any;
+}
 
-export {h} from './h';
+export interface InitOptions {
+  // Called with a report after every patch
+  profile?: ProfileHandler;
+  // Checks vnode trees while patching, reports are logged with
+  // `console.warn` unless a reporter is given
+  dev?: boolean | DevReporter;
+}
+
+// The old vnode of an element that is hydrated, with the data it reflects
+function hydratedNodeAt(elm: Element, sel: string, data: VNodeData): VNode {
+  return vnode(sel, data, [], undefined, elm);
+}
+
+export {h, fragment} from './h';
 export {thunk} from './thunk';
 
-export function init(modules: Array<Partial<Module>>, domApi?: DOMAPI) {
+export function init(modules: Array<Partial<Module>>, domApi?: DOMAPI, options?: InitOptions): Patch {
   let i: number, j: number, cbs = ({} as ModuleHooks);
+  let profile: PatchProfile | undefined; // Report of the running patch while profiling
+  let ops: Array<any> | undefined, units: Array<SliceUnit> | undefined; // Set while slicing
+  let attempt: Attempt | undefined; // Set while an error boundary patches its children
+  const slices: Array<PendingSlice> = [];
 
-  const api: DOMAPI = domApi !== undefined ? domApi : htmlDomApi;
+  const onProfile = options !== undefined ? options.profile : undefined;
+  const dev = options !== undefined && options.dev !== undefined && options.dev !== false ?
+    createDevChecker(options.dev, modules) : undefined;
+  const baseApi: DOMAPI = domApi !== undefined ? domApi : htmlDomApi;
+  const api: DOMAPI = onProfile !== undefined ? profileDomApi(baseApi, function() { return profile; }) : baseApi;
 
   for (i = 0; i < hooks.length; ++i) {
     cbs[hooks[i]] = [];
     for (j = 0; j < modules.length; ++j) {
       const hook = modules[j][hooks[i]];
       if (hook !== undefined) {
-        (cbs[hooks[i]] as Array<any>).push(hook);
+        (cbs[hooks[i]] as Array<any>).push(onProfile !== undefined ? timeModuleHook(hook, hooks[i], j) : hook);
       }
     }
   }
 
+  function timeModuleHook(hook: any, name: string, index: number): any {
+    if (name !== 'create' && name !== 'update' && name !== 'destroy') return hook;
+    return function() {
+      const start = now();
+      const result = hook.apply(undefined, arguments);
+      if (profile !== undefined) (profile.modules[index] as any)[name] += now() - start;
+      return result;
+    };
+  }
+
+  function callHook(name: string, hook: any, vnode: VNode, arg?: any): void {
+    const start = profile !== undefined ? now() : 0;
+    if (arg === undefined) hook(vnode);
+    else hook(vnode, arg);
+    if (profile !== undefined) profile.hooks[name] += now() - start;
+  }
+
+  function callInsertHooks(queue: VNodeQueue): void {
+    for (let i = 0; i < queue.length; ++i) {
+      const entry = queue[i];
+      if (typeof entry === 'function') entry();
+      else callHook('insert', ((entry.data as VNodeData).hook as Hooks).insert, entry);
+    }
+  }
+
+  // Runs `fn` while recording the vnodes it creates and destroys. On
+  // success they are added to an enclosing attempt, on failure the
+  // recorded attempt is passed to `onError`.
+  function tryAttempt(fn: () => void, onError: (error: any, tried: Attempt) => void): void {
+    const outer = attempt, tried: Attempt = {created: [], destroyed: []};
+    attempt = tried;
+    try {
+      fn();
+    } catch (error) {
+      attempt = outer;
+      onError(error, tried);
+      return;
+    } finally {
+      attempt = outer;
+    }
+    if (outer !== undefined) {
+      outer.created.push.apply(outer.created, tried.created);
+      outer.destroyed.push.apply(outer.destroyed, tried.destroyed);
+    }
+  }
+
+  // Calls the destroy hooks of the vnodes a failed attempt created and of
+  // the mounted vnodes it did not destroy itself
+  function discardAttempt(tried: Attempt, mounted: Array<VNode>): void {
+    for (let i = 0; i < tried.created.length; ++i) {
+      if (tried.destroyed.indexOf(tried.created[i]) === -1) destroyVnode(tried.created[i]);
+    }
+    destroyMounted(mounted, tried.destroyed);
+  }
+
+  function destroyMounted(mounted: Array<VNode>, destroyed: Array<VNode>): void {
+    for (let i = 0; i < mounted.length; ++i) {
+      if (mounted[i] != null) invokeDestroyHook(mounted[i], destroyed);
+    }
+  }
+
+  // Calls `fn` right away, or while slicing defers it to the commit
+  function run(fn: Function, a?: any, b?: any, c?: any, d?: any): void {
+    if (ops === undefined) fn(a, b, c, d);
+    else ops.push(function() { fn(a, b, c, d); });
+  }
+
+  // Patches a child, or while slicing queues it as a unit of work
+  function patchChild(oldVnode: VNode, vnode: VNode, insertedVnodeQueue: VNodeQueue, parentElm: Node): void {
+    if (units === undefined) {
+      patchVnode(oldVnode, vnode, insertedVnodeQueue, parentElm);
+      return;
+    }
+    const unit: SliceUnit = {oldVnode: oldVnode, vnode: vnode, parentElm: parentElm, ops: [], queue: []};
+    vnode.elm = oldVnode.elm; // The parent may read it before the unit is done
+    (ops as Array<any>).push(unit.ops);
+    (insertedVnodeQueue as Array<any>).push(unit.queue);
+    units.push(unit);
+  }
+
+  function insertAfter(parentElm: Node, vnode: VNode, ref: VNode): void {
+    insertVnode(parentElm, vnode, api.nextSibling(lastNode(ref)));
+  }
+
+  function setTextContent(node: Node, text: string): void {
+    api.setTextContent(node, text);
+  }
+
+  function removeChild(node: Node, child: Node): void {
+    api.removeChild(node, child);
+  }
+
+  // The node following `ref` in `parentElm`, which the children of a
+  // fragment or portal that come last are inserted before. While slicing
+  // it is only known at the commit, so an empty text node marks the end
+  // of the range from then on until `releaseEnd` removes it.
+  function rangeEnd(parentElm: Node, ref: VNode): Node | null {
+    if (ops === undefined) return api.nextSibling(lastNode(ref));
+    const end = vnode(undefined, undefined, undefined, '', api.createTextNode(''));
+    run(insertAfter, parentElm, end, ref);
+    return end.elm as Node;
+  }
+
+  function releaseEnd(parentElm: Node, end: Node | null): void {
+    if (ops !== undefined && end !== null) run(removeChild, parentElm, end);
+  }
+
+  // Removes the nodes between the start of a fragment and `end`
+  function clearRange(parentElm: Node, start: Node, end: Node | null): void {
+    while (api.nextSibling(start) !== end) api.removeChild(parentElm, api.nextSibling(start));
+  }
+
+  function replaceVnode(oldVnode: VNode, vnode: VNode): void {
+    const parent = api.parentNode(oldVnode.elm as Node);
+    if (parent !== null) {
+      insertVnode(parent, vnode, api.nextSibling(lastNode(oldVnode)));
+      removeVnodes(parent, [oldVnode], 0, 0);
+    }
+  }
+
   function emptyNodeAt(elm: Element) {
-    const id = elm.id ? '#' + elm.id : '';
-    const c = elm.className ? '.' + elm.className.split(' ').join('.') : '';
-    return vnode(api.tagName(elm).toLowerCase() + id + c, {}, [], undefined, elm);
+    const sel = elementSelector(api.tagName(elm), elm.getAttribute('id'), elm.getAttribute('class'), elm.namespaceURI);
+    return vnode(sel, {}, [], undefined, elm);
+  }
+
+  // Sets the attributes of the new selector and removes those only in the old one
+  function updateSelectorAttrs(elm: Element, oldSel: string, sel: string): void {
+    const oldAttrs = parseSelector(oldSel).attrs || {}, attrs = parseSelector(sel).attrs || {};
+    let key: string;
+    for (key in oldAttrs) {
+      if (!(key in attrs)) elm.removeAttribute(key);
+    }
+    for (key in attrs) {
+      if (elm.getAttribute(key) !== attrs[key]) elm.setAttribute(key, attrs[key]);
+    }
   }
 
   function createRmCb(childElm: Node, listeners: number) {
@@ -79,10 +354,12 @@ export function init(modules: Array<Partial<Module>>, domApi?: DOMAPI) {
     let i: any, data = vnode.data;
     if (data !== undefined) {
       if (isDef(i = data.hook) && isDef(i = i.init)) {
-        i(vnode);
+        callHook('init', i, vnode);
         data = vnode.data;
       }
     }
+    if (attempt !== undefined) attempt.created.push(vnode);
+    if (profile !== undefined) profile.created++;
     let children = vnode.children, sel = vnode.sel;
     if (sel === '!') {
       if (isUndef(vnode.text)) {
@@ -90,22 +367,19 @@ export function init(modules: Array<Partial<Module>>, domApi?: DOMAPI) {
       }
       vnode.elm = api.createComment(vnode.text as string);
     } else if (sel !== undefined) {
-      // Parse selector
-      const hashIdx = sel.indexOf('#');
-      const dotIdx = sel.indexOf('.', hashIdx);
-      const hash = hashIdx > 0 ? hashIdx : sel.length;
-      const dot = dotIdx > 0 ? dotIdx : sel.length;
-      const tag = hashIdx !== -1 || dotIdx !== -1 ? sel.slice(0, Math.min(hash, dot)) : sel;
-      const elm = vnode.elm = isDef(data) && isDef(i = (data as VNodeData).ns) ? api.createElementNS(i, tag)
-                                                                               : api.createElement(tag);
-      if (hash < dot) elm.setAttribute('id', sel.slice(hash + 1, dot));
-      if (dotIdx > 0) elm.setAttribute('class', sel.slice(dot + 1).replace(/\./g, ' '));
+      const selector = parseSelector(sel);
+      const elm = vnode.elm = isDef(data) && isDef(i = (data as VNodeData).ns) ? api.createElementNS(i, selector.tag)
+                                                                               : api.createElement(selector.tag);
+      if (isDef(selector.id)) elm.setAttribute('id', selector.id as string);
+      if (isDef(selector.className)) elm.setAttribute('class', selector.className as string);
+      for (i in selector.attrs) elm.setAttribute(i, (selector.attrs as Record<string, string>)[i]);
       for (i = 0; i < cbs.create.length; ++i) cbs.create[i](emptyNode, vnode);
       if (is.array(children)) {
         for (i = 0; i < children.length; ++i) {
           const ch = children[i];
           if (ch != null) {
-            api.appendChild(elm, createElm(ch as VNode, insertedVnodeQueue));
+            createElm(ch as VNode, insertedVnodeQueue);
+            insertVnode(elm, ch as VNode, null);
           }
         }
       } else if (is.primitive(vnode.text)) {
@@ -113,15 +387,98 @@ export function init(modules: Array<Partial<Module>>, domApi?: DOMAPI) {
       }
       i = (vnode.data as VNodeData).hook; // Reuse variable
       if (isDef(i)) {
-        if (i.create) i.create(emptyNode, vnode);
+        if (i.create) callHook('create', i.create, emptyNode, vnode);
         if (i.insert) insertedVnodeQueue.push(vnode);
       }
+    } else if (is.array(children)) {
+      // Fragment, an empty text node marks the start of its range
+      vnode.elm = api.createTextNode('');
+      if (isDef(data) && isDef((data as VNodeData).boundary)) createBoundary(vnode, insertedVnodeQueue);
+      else createChildren(vnode, insertedVnodeQueue);
+      if (isPortal(vnode)) run(insertPortal, vnode, portalTarget(vnode));
+      if (isDef(data) && isDef(i = (data as VNodeData).hook) && isDef(i.insert)) insertedVnodeQueue.push(vnode);
     } else {
       vnode.elm = api.createTextNode(vnode.text as string);
     }
     return vnode.elm;
   }
 
+  function createChildren(vnode: VNode, insertedVnodeQueue: VNodeQueue): void {
+    const children = vnode.children as Array<VNode>;
+    for (let i = 0; i < children.length; ++i) {
+      if (children[i] != null) createElm(children[i], insertedVnodeQueue);
+    }
+  }
+
+  function createBoundary(vnode: VNode, insertedVnodeQueue: VNodeQueue): void {
+    const start = insertedVnodeQueue.length;
+    tryAttempt(function() {
+      createChildren(vnode, insertedVnodeQueue);
+    }, function(error, tried) {
+      insertedVnodeQueue.length = start;
+      discardAttempt(tried, []);
+      renderFallback(vnode, error, 'create');
+      createChildren(vnode, insertedVnodeQueue);
+    });
+    guardInserts(vnode, insertedVnodeQueue, start);
+  }
+
+  // Replaces the children of an error boundary with its fallback
+  function renderFallback(vnode: VNode, error: any, phase: ErrorContext['phase']): void {
+    const boundary = (vnode.data as VNodeData).boundary as Boundary;
+    reportError(boundary, error, {phase: phase, vnode: vnode});
+    vnode.children = [boundary.fallback(error)];
+  }
+
+  // Replaces the entries queued from `start` on by one function that
+  // calls their insert hooks and renders the fallback if one throws
+  function guardInserts(vnode: VNode, insertedVnodeQueue: VNodeQueue, start: number): void {
+    if (insertedVnodeQueue.length === start) return;
+    const inserted = insertedVnodeQueue.splice(start, insertedVnodeQueue.length - start);
+    insertedVnodeQueue.push(function() {
+      try {
+        callInsertHooks(inserted);
+      } catch (error) {
+        const parentElm = api.parentNode(vnode.elm as Node);
+        const parentEnd = api.nextSibling(lastNode(vnode));
+        const oldCh = vnode.children as Array<VNode>, queue: VNodeQueue = [];
+        renderFallback(vnode, error, 'insert');
+        if (parentElm === null) return;
+        updateChildren(parentElm, parentEnd, oldCh, vnode.children as Array<VNode>, queue);
+        callInsertHooks(queue);
+      }
+    });
+  }
+
+  // Finds the element a portal renders into
+  function portalTarget(vnode: VNode): Node {
+    const data = (vnode.data as VNodeData).portal as PortalData;
+    const target = typeof data.target !== 'string' ? data.target :
+      api.querySelector !== undefined ? api.querySelector(data.target) : document.querySelector(data.target);
+    if (target === null) throw new Error('snabbdom: portal target "' + data.target + '" not found');
+    return target;
+  }
+
+  // Appends or moves the children of a portal to the target
+  function insertPortal(vnode: VNode, target: Node): void {
+    const children = vnode.children as Array<VNode>;
+    ((vnode.data as VNodeData).portal as PortalData).elm = target;
+    for (let i = 0; i < children.length; ++i) {
+      if (children[i] != null) insertVnode(target, children[i], null);
+    }
+  }
+
+  // Inserts or moves all DOM nodes of a vnode
+  function insertVnode(parentElm: Node, vnode: VNode, before: Node | null): void {
+    api.insertBefore(parentElm, vnode.elm as Node, before);
+    if (isFragment(vnode) && !isPortal(vnode)) {
+      const children = vnode.children as Array<VNode>;
+      for (let i = 0; i < children.length; ++i) {
+        if (children[i] != null) insertVnode(parentElm, children[i], before);
+      }
+    }
+  }
+
   function addVnodes(parentElm: Node,
                      before: Node | null,
                      vnodes: Array<VNode>,
@@ -131,52 +488,129 @@ export function init(modules: Array<Partial<Module>>, domApi?: DOMAPI) {
     for (; startIdx <= endIdx; ++startIdx) {
       const ch = vnodes[startIdx];
       if (ch != null) {
-        api.insertBefore(parentElm, createElm(ch, insertedVnodeQueue), before);
+        createElm(ch, insertedVnodeQueue);
+        run(insertVnode, parentElm, ch, before);
       }
     }
   }
 
-  function invokeDestroyHook(vnode: VNode) {
-    let i: any, j: number, data = vnode.data;
-    if (data !== undefined) {
-      if (isDef(i = data.hook) && isDef(i = i.destroy)) i(vnode);
+  // Calls the destroy hooks of a vnode but not of its children
+  function destroyVnode(vnode: VNode): void {
+    let i: any, data = vnode.data;
+    if (data === undefined) return;
+    if (isDef(i = data.hook) && isDef(i = i.destroy)) callHook('destroy', i, vnode);
+    if (isDef(vnode.sel)) {
       for (i = 0; i < cbs.destroy.length; ++i) cbs.destroy[i](vnode);
+    }
+    if (attempt !== undefined) attempt.destroyed.push(vnode);
+  }
+
+  // Destroys a vnode and its descendants, except those in `skip` that
+  // have been destroyed already
+  function invokeDestroyHook(vnode: VNode, skip?: Array<VNode>) {
+    let i: any, j: number;
+    if (vnode.data !== undefined) {
+      if (skip !== undefined && skip.indexOf(vnode) !== -1) return;
+      destroyVnode(vnode);
       if (vnode.children !== undefined) {
         for (j = 0; j < vnode.children.length; ++j) {
           i = vnode.children[j];
           if (i != null && typeof i !== "string") {
-            invokeDestroyHook(i);
+            invokeDestroyHook(i, skip);
           }
         }
       }
     }
   }
 
+  function removeVnode(parentElm: Node, vnode: VNode): void {
+    let i: any, listeners: number, rm: () => void;
+    if (isDef(vnode.sel)) {
+      listeners = cbs.remove.length + 1;
+      rm = createRmCb(vnode.elm as Node, listeners);
+      for (i = 0; i < cbs.remove.length; ++i) cbs.remove[i](vnode, rm);
+      if (isDef(i = vnode.data) && isDef(i = i.hook) && isDef(i = i.remove)) {
+        callHook('remove', i, vnode, rm);
+      } else {
+        rm();
+      }
+    } else { // Text node or fragment
+      api.removeChild(parentElm, vnode.elm as Node);
+      if (isDef(vnode.children)) {
+        const childElm = isPortal(vnode) ? ((vnode.data as VNodeData).portal as PortalData).elm as Node : parentElm;
+        for (i = 0; i < (vnode.children as Array<VNode>).length; ++i) {
+          const ch = (vnode.children as Array<VNode>)[i];
+          if (ch != null) removeVnode(childElm, ch);
+        }
+      }
+    }
+  }
+
   function removeVnodes(parentElm: Node,
                         vnodes: Array<VNode>,
                         startIdx: number,
                         endIdx: number): void {
     for (; startIdx <= endIdx; ++startIdx) {
-      let i: any, listeners: number, rm: () => void, ch = vnodes[startIdx];
+      const ch = vnodes[startIdx];
       if (ch != null) {
-        if (isDef(ch.sel)) {
-          invokeDestroyHook(ch);
-          listeners = cbs.remove.length + 1;
-          rm = createRmCb(ch.elm as Node, listeners);
-          for (i = 0; i < cbs.remove.length; ++i) cbs.remove[i](ch, rm);
-          if (isDef(i = ch.data) && isDef(i = i.hook) && isDef(i = i.remove)) {
-            i(ch, rm);
-          } else {
-            rm();
-          }
-        } else { // Text node
-          api.removeChild(parentElm, ch.elm as Node);
-        }
+        if (isDef(ch.sel) || isFragment(ch)) invokeDestroyHook(ch);
+        removeVnode(parentElm, ch);
+        if (profile !== undefined) profile.removed++;
+      }
+    }
+  }
+
+  // Reconciles the children between the given indices once the
+  // comparisons of both ends have failed. Vnodes whose old positions are
+  // part of the longest increasing subsequence stay in place, only the
+  // rest are moved.
+  function updateKeyedChildren(parentElm: Node,
+                               parentEnd: Node | null,
+                               oldCh: Array<VNode>,
+                               oldStartIdx: number,
+                               oldEndIdx: number,
+                               newCh: Array<VNode>,
+                               newStartIdx: number,
+                               newEndIdx: number,
+                               insertedVnodeQueue: VNodeQueue) {
+    let i: number, j: number, ch: VNode, elmToMove: VNode, idxInOld: number, before: Node | null;
+    if (ops !== undefined) oldCh = oldCh.slice(); // A sliced patch may be cancelled, so the old tree stays intact
+    const oldKeyToIdx = createKeyToOldIdx(oldCh, oldStartIdx, oldEndIdx);
+    const count = newEndIdx - newStartIdx + 1;
+    const sources: Array<number> = new Array(count); // old index of every new vnode, -1 if created
+    for (i = 0; i < count; ++i) {
+      ch = newCh[newStartIdx + i];
+      sources[i] = -1;
+      if (ch == null) continue;
+      idxInOld = oldKeyToIdx[ch.key as string];
+      elmToMove = oldCh[idxInOld];
+      if (isDef(idxInOld) && elmToMove != null && sameVnode(elmToMove, ch)) {
+        patchChild(elmToMove, ch, insertedVnodeQueue, parentElm);
+        oldCh[idxInOld] = undefined as any;
+        sources[i] = idxInOld;
+      } else {
+        createElm(ch, insertedVnodeQueue);
       }
     }
+    for (i = newEndIdx + 1; i < newCh.length && newCh[i] == null; ++i);
+    before = i < newCh.length ? newCh[i].elm as Node : parentEnd;
+    const stable = longestIncreasingSubsequence(sources);
+    for (i = count - 1, j = stable.length - 1; i >= 0; --i) {
+      ch = newCh[newStartIdx + i];
+      if (ch == null) continue;
+      if (j >= 0 && stable[j] === i) {
+        --j;
+      } else {
+        run(insertVnode, parentElm, ch, before);
+        if (profile !== undefined && sources[i] !== -1) profile.moved++;
+      }
+      before = ch.elm as Node;
+    }
+    run(removeVnodes, parentElm, oldCh, oldStartIdx, oldEndIdx);
   }
 
   function updateChildren(parentElm: Node,
+                          parentEnd: Node | null,
                           oldCh: Array<VNode>,
                           newCh: Array<VNode>,
                           insertedVnodeQueue: VNodeQueue) {
@@ -187,9 +621,6 @@ export function init(modules: Array<Partial<Module>>, domApi?: DOMAPI) {
     let newEndIdx = newCh.length - 1;
     let newStartVnode = newCh[0];
     let newEndVnode = newCh[newEndIdx];
-    let oldKeyToIdx: any;
-    let idxInOld: number;
-    let elmToMove: VNode;
     let before: any;
 
     while (oldStartIdx <= oldEndIdx && newStartIdx <= newEndIdx) {
@@ -202,117 +633,510 @@ export function init(modules: Array<Partial<Module>>, domApi?: DOMAPI) {
       } else if (newEndVnode == null) {
         newEndVnode = newCh[--newEndIdx];
       } else if (sameVnode(oldStartVnode, newStartVnode)) {
-        patchVnode(oldStartVnode, newStartVnode, insertedVnodeQueue);
+        patchChild(oldStartVnode, newStartVnode, insertedVnodeQueue, parentElm);
         oldStartVnode = oldCh[++oldStartIdx];
         newStartVnode = newCh[++newStartIdx];
       } else if (sameVnode(oldEndVnode, newEndVnode)) {
-        patchVnode(oldEndVnode, newEndVnode, insertedVnodeQueue);
+        patchChild(oldEndVnode, newEndVnode, insertedVnodeQueue, parentElm);
         oldEndVnode = oldCh[--oldEndIdx];
         newEndVnode = newCh[--newEndIdx];
       } else if (sameVnode(oldStartVnode, newEndVnode)) { // Vnode moved right
-        patchVnode(oldStartVnode, newEndVnode, insertedVnodeQueue);
-        api.insertBefore(parentElm, oldStartVnode.elm as Node, api.nextSibling(oldEndVnode.elm as Node));
+        patchChild(oldStartVnode, newEndVnode, insertedVnodeQueue, parentElm);
+        run(insertAfter, parentElm, newEndVnode, oldEndVnode);
+        if (profile !== undefined) profile.moved++;
         oldStartVnode = oldCh[++oldStartIdx];
         newEndVnode = newCh[--newEndIdx];
       } else if (sameVnode(oldEndVnode, newStartVnode)) { // Vnode moved left
-        patchVnode(oldEndVnode, newStartVnode, insertedVnodeQueue);
-        api.insertBefore(parentElm, oldEndVnode.elm as Node, oldStartVnode.elm as Node);
+        patchChild(oldEndVnode, newStartVnode, insertedVnodeQueue, parentElm);
+        run(insertVnode, parentElm, newStartVnode, oldStartVnode.elm);
+        if (profile !== undefined) profile.moved++;
         oldEndVnode = oldCh[--oldEndIdx];
         newStartVnode = newCh[++newStartIdx];
       } else {
-        if (oldKeyToIdx === undefined) {
-          oldKeyToIdx = createKeyToOldIdx(oldCh, oldStartIdx, oldEndIdx);
-        }
-        idxInOld = oldKeyToIdx[newStartVnode.key as string];
-        if (isUndef(idxInOld)) { // New element
-          api.insertBefore(parentElm, createElm(newStartVnode, insertedVnodeQueue), oldStartVnode.elm as Node);
-          newStartVnode = newCh[++newStartIdx];
-        } else {
-          elmToMove = oldCh[idxInOld];
-          if (elmToMove.sel !== newStartVnode.sel) {
-            api.insertBefore(parentElm, createElm(newStartVnode, insertedVnodeQueue), oldStartVnode.elm as Node);
-          } else {
-            patchVnode(elmToMove, newStartVnode, insertedVnodeQueue);
-            oldCh[idxInOld] = undefined as any;
-            api.insertBefore(parentElm, (elmToMove.elm as Node), oldStartVnode.elm as Node);
-          }
-          newStartVnode = newCh[++newStartIdx];
-        }
+        updateKeyedChildren(parentElm, parentEnd, oldCh, oldStartIdx, oldEndIdx,
+                            newCh, newStartIdx, newEndIdx, insertedVnodeQueue);
+        return;
       }
     }
     if (oldStartIdx <= oldEndIdx || newStartIdx <= newEndIdx) {
       if (oldStartIdx > oldEndIdx) {
-        before = newCh[newEndIdx+1] == null ? null : newCh[newEndIdx+1].elm;
+        before = newCh[newEndIdx+1] == null ? parentEnd : newCh[newEndIdx+1].elm;
         addVnodes(parentElm, before, newCh, newStartIdx, newEndIdx, insertedVnodeQueue);
       } else {
-        removeVnodes(parentElm, oldCh, oldStartIdx, oldEndIdx);
+        run(removeVnodes, parentElm, oldCh, oldStartIdx, oldEndIdx);
       }
     }
   }
 
-  function patchVnode(oldVnode: VNode, vnode: VNode, insertedVnodeQueue: VNodeQueue) {
+  function patchVnode(oldVnode: VNode, vnode: VNode, insertedVnodeQueue: VNodeQueue, parentElm?: Node) {
     let i: any, hook: any;
     if (isDef(i = vnode.data) && isDef(hook = i.hook) && isDef(i = hook.prepatch)) {
-      i(oldVnode, vnode);
+      callHook('prepatch', i, oldVnode, vnode);
+    }
+    if (profile !== undefined) {
+      profile.patched++;
+      // A thunk keeps the data of the old vnode when its arguments are unchanged
+      if (isDef(i = vnode.data) && isDef(i.fn)) {
+        if (i === oldVnode.data) profile.thunkHits++;
+        else profile.thunkMisses++;
+      }
     }
     const elm = vnode.elm = (oldVnode.elm as Node);
     let oldCh = oldVnode.children;
     let ch = vnode.children;
     if (oldVnode === vnode) return;
+    if (isFragment(vnode)) {
+      if (isPortal(vnode)) updatePortal(oldVnode, vnode, insertedVnodeQueue);
+      else if (oldCh !== ch) {
+        updateFragment(oldVnode, vnode, parentElm !== undefined ? parentElm : api.parentNode(elm), insertedVnodeQueue);
+      }
+      if (isDef(hook) && isDef(i = hook.postpatch)) run(callHook, 'postpatch', i, oldVnode, vnode);
+      return;
+    }
+    if (oldVnode.sel !== vnode.sel) run(updateSelectorAttrs, elm, oldVnode.sel, vnode.sel);
     if (vnode.data !== undefined) {
-      for (i = 0; i < cbs.update.length; ++i) cbs.update[i](oldVnode, vnode);
+      for (i = 0; i < cbs.update.length; ++i) run(cbs.update[i], oldVnode, vnode);
       i = vnode.data.hook;
-      if (isDef(i) && isDef(i = i.update)) i(oldVnode, vnode);
+      if (isDef(i) && isDef(i = i.update)) run(callHook, 'update', i, oldVnode, vnode);
     }
     if (isUndef(vnode.text)) {
       if (isDef(oldCh) && isDef(ch)) {
-        if (oldCh !== ch) updateChildren(elm, oldCh as Array<VNode>, ch as Array<VNode>, insertedVnodeQueue);
+        if (oldCh !== ch) updateChildren(elm, null, oldCh as Array<VNode>, ch as Array<VNode>, insertedVnodeQueue);
       } else if (isDef(ch)) {
-        if (isDef(oldVnode.text)) api.setTextContent(elm, '');
+        if (isDef(oldVnode.text)) run(setTextContent, elm, '');
         addVnodes(elm, null, ch as Array<VNode>, 0, (ch as Array<VNode>).length - 1, insertedVnodeQueue);
       } else if (isDef(oldCh)) {
-        removeVnodes(elm, oldCh as Array<VNode>, 0, (oldCh as Array<VNode>).length - 1);
+        run(removeVnodes, elm, oldCh, 0, (oldCh as Array<VNode>).length - 1);
       } else if (isDef(oldVnode.text)) {
-        api.setTextContent(elm, '');
+        run(setTextContent, elm, '');
       }
     } else if (oldVnode.text !== vnode.text) {
       if (isDef(oldCh)) {
-        removeVnodes(elm, oldCh as Array<VNode>, 0, (oldCh as Array<VNode>).length - 1);
+        run(removeVnodes, elm, oldCh, 0, (oldCh as Array<VNode>).length - 1);
       }
-      api.setTextContent(elm, vnode.text as string);
+      run(setTextContent, elm, vnode.text);
     }
     if (isDef(hook) && isDef(i = hook.postpatch)) {
-      i(oldVnode, vnode);
+      run(callHook, 'postpatch', i, oldVnode, vnode);
+    }
+  }
+
+  // Patches the children of a fragment in the range between its start
+  // and the node following its last child
+  function updateFragment(oldVnode: VNode, vnode: VNode, parentElm: Node, insertedVnodeQueue: VNodeQueue): void {
+    const parentEnd = rangeEnd(parentElm, oldVnode);
+    if (vnode.data === undefined || vnode.data.boundary === undefined) {
+      updateChildren(parentElm, parentEnd, oldVnode.children as Array<VNode>,
+                     vnode.children as Array<VNode>, insertedVnodeQueue);
+    } else if (ops === undefined) {
+      updateBoundary(oldVnode, vnode, parentElm, parentEnd, insertedVnodeQueue);
+    } else {
+      sliceBoundary(oldVnode, vnode, parentElm, parentEnd, insertedVnodeQueue);
+    }
+    releaseEnd(parentElm, parentEnd);
+  }
+
+  // Patches the children of a boundary, or renders the fallback instead
+  // when any of them fails. Returns whether it did.
+  function updateBoundary(oldVnode: VNode, vnode: VNode, parentElm: Node, parentEnd: Node | null,
+                          insertedVnodeQueue: VNodeQueue): boolean {
+    const oldCh = oldVnode.children as Array<VNode>, mounted = oldCh.slice();
+    const start = insertedVnodeQueue.length, opsStart = ops !== undefined ? ops.length : 0;
+    let failed = false;
+    tryAttempt(function() {
+      updateChildren(parentElm, parentEnd, oldCh, vnode.children as Array<VNode>, insertedVnodeQueue);
+    }, function(error, tried) {
+      // The children may be half patched, so their DOM is rebuilt
+      failed = true;
+      insertedVnodeQueue.length = start;
+      if (ops !== undefined) ops.length = opsStart;
+      discardAttempt(tried, []);
+      run(destroyMounted, mounted, tried.destroyed);
+      run(clearRange, parentElm, vnode.elm, parentEnd);
+      renderFallback(vnode, error, 'patch');
+      addVnodes(parentElm, parentEnd, vnode.children as Array<VNode>, 0, 0, insertedVnodeQueue);
+    });
+    guardInserts(vnode, insertedVnodeQueue, start);
+    return failed;
+  }
+
+  // While slicing the children of a boundary are patched in its unit, as
+  // an error of any of them replaces them all. Their operations are kept
+  // apart, so that an error of a hook at the commit renders the fallback
+  // as well.
+  function sliceBoundary(oldVnode: VNode, vnode: VNode, parentElm: Node, parentEnd: Node | null,
+                         insertedVnodeQueue: VNodeQueue): void {
+    const boundaryOps: Array<any> = [], queue: VNodeQueue = [], tracked: Attempt = {created: [], destroyed: []};
+    const outerOps = ops as Array<any>, outerUnits = units, outerAttempt = attempt as Attempt;
+    let failed = false;
+    outerOps.push(function() {
+      if (failed) runOps(boundaryOps);
+      else commitBoundary(oldVnode, vnode, parentElm, parentEnd, boundaryOps, queue, tracked);
+    });
+    (insertedVnodeQueue as Array<any>).push(queue);
+    ops = boundaryOps;
+    units = undefined;
+    attempt = tracked;
+    try {
+      failed = updateBoundary(oldVnode, vnode, parentElm, parentEnd, queue);
+    } finally {
+      ops = outerOps;
+      units = outerUnits;
+      attempt = outerAttempt;
+      outerAttempt.created.push.apply(outerAttempt.created, tracked.created);
+      outerAttempt.destroyed.push.apply(outerAttempt.destroyed, tracked.destroyed);
+    }
+  }
+
+  // Runs the operations of a boundary patched while slicing, and renders
+  // the fallback when any of them fails
+  function commitBoundary(oldVnode: VNode, vnode: VNode, parentElm: Node, parentEnd: Node | null,
+                          boundaryOps: Array<any>, queue: VNodeQueue, tracked: Attempt): void {
+    tryAttempt(function() {
+      runOps(boundaryOps);
+    }, function(error, tried) {
+      queue.length = 0;
+      discardAttempt({created: tracked.created, destroyed: tracked.destroyed.concat(tried.destroyed)},
+                     oldVnode.children as Array<VNode>);
+      clearRange(parentElm, vnode.elm as Node, parentEnd);
+      renderFallback(vnode, error, 'patch');
+      addVnodes(parentElm, parentEnd, vnode.children as Array<VNode>, 0, 0, queue);
+      guardInserts(vnode, queue, 0);
+    });
+  }
+
+  // Moves the children when the target changed and patches them there
+  function updatePortal(oldVnode: VNode, vnode: VNode, insertedVnodeQueue: VNodeQueue): void {
+    let i: number, parentEnd: Node | null = null;
+    const oldCh = oldVnode.children as Array<VNode>;
+    const oldTarget = ((oldVnode.data as VNodeData).portal as PortalData).elm as Node, target = portalTarget(vnode);
+    if (oldTarget !== target) run(insertPortal, oldVnode, target);
+    ((vnode.data as VNodeData).portal as PortalData).elm = target;
+    if (oldCh === vnode.children) return;
+    if (oldTarget === target) {
+      for (i = oldCh.length - 1; i >= 0; --i) {
+        if (oldCh[i] != null) {
+          parentEnd = rangeEnd(target, oldCh[i]);
+          break;
+        }
+      }
     }
+    updateChildren(target, parentEnd, oldCh, vnode.children as Array<VNode>, insertedVnodeQueue);
+    releaseEnd(target, parentEnd);
   }
 
-  return function patch(oldVnode: VNode | Element, vnode: VNode): VNode {
-    let i: number, elm: Node, parent: Node;
+  function hydrateElm(elm: Element, vnode: VNode, insertedVnodeQueue: VNodeQueue,
+                      report: HydrationMismatchHandler): void {
+    let i: any, data = vnode.data as VNodeData;
+    if (isDef(i = data.hook) && isDef(i = i.init)) {
+      callHook('init', i, vnode);
+      data = vnode.data as VNodeData;
+    }
+    const selector = parseSelector(vnode.sel as string);
+    vnode.elm = elm;
+    if (isDef(selector.id) && elm.getAttribute('id') !== selector.id) {
+      report('Expected id "' + selector.id + '"', vnode, elm);
+      elm.setAttribute('id', selector.id as string);
+    }
+    if (isDef(selector.className)) {
+      const current = ' ' + (elm.getAttribute('class') || '') + ' ';
+      const missing = (selector.className as string).split(' ').filter(function(name) {
+        return current.indexOf(' ' + name + ' ') === -1;
+      });
+      if (missing.length > 0) {
+        report('Expected class "' + missing.join(' ') + '"', vnode, elm);
+        elm.setAttribute('class', (current + missing.join(' ')).trim());
+      }
+    }
+    for (i in selector.attrs) {
+      if (elm.getAttribute(i) !== (selector.attrs as Record<string, string>)[i]) {
+        report('Expected attribute "' + i + '"', vnode, elm);
+        elm.setAttribute(i, (selector.attrs as Record<string, string>)[i]);
+      }
+    }
+    // Modules only apply the data that the element does not reflect yet
+    const oldData: VNodeData = {};
+    for (i = 0; i < cbs.hydrate.length; ++i) cbs.hydrate[i](vnode, oldData);
+    const oldVnode = hydratedNodeAt(elm, vnode.sel as string, oldData);
+    for (i = 0; i < cbs.create.length; ++i) cbs.create[i](oldVnode, vnode);
+    if (is.array(vnode.children)) {
+      hydrateChildren(elm, vnode.children as Array<VNode>, insertedVnodeQueue, report);
+    } else if (is.primitive(vnode.text)) {
+      if (api.getTextContent(elm) !== String(vnode.text)) {
+        report('Expected text "' + vnode.text + '"', vnode, elm);
+        api.setTextContent(elm, vnode.text);
+      }
+    }
+    i = data.hook; // Reuse variable
+    if (isDef(i)) {
+      if (i.create) callHook('create', i.create, emptyNode, vnode);
+      if (i.insert) insertedVnodeQueue.push(vnode);
+    }
+  }
+
+  // Adopts `node` for `vnode` if they match and otherwise replaces it
+  // with a newly created element. Returns the node to continue with.
+  function hydrateNode(parentElm: Node, node: Node | null, vnode: VNode,
+                       insertedVnodeQueue: VNodeQueue, report: HydrationMismatchHandler): Node | null {
+    let i: any, text: string;
+    const sel = vnode.sel;
+    if (isPortal(vnode)) {
+      // The children of portals are not part of the markup
+      api.insertBefore(parentElm, createElm(vnode, insertedVnodeQueue), node);
+      return node;
+    }
+    if (isFragment(vnode)) {
+      if (isDef(vnode.data) && isDef(i = (vnode.data as VNodeData).hook) && isDef(i = i.init)) callHook('init', i, vnode);
+      vnode.elm = api.createTextNode('');
+      api.insertBefore(parentElm, vnode.elm, node);
+      for (i = 0; i < (vnode.children as Array<VNode>).length; ++i) {
+        const ch = (vnode.children as Array<VNode>)[i];
+        if (ch != null) node = hydrateNode(parentElm, node, ch, insertedVnodeQueue, report);
+      }
+      if (isDef(vnode.data) && isDef(i = (vnode.data as VNodeData).hook) && isDef(i.insert)) {
+        insertedVnodeQueue.push(vnode);
+      }
+      return node;
+    }
+    if (node !== null) {
+      if (sel === '!') {
+        if (api.isComment(node)) {
+          if (isDef(vnode.data) && isDef(i = (vnode.data as VNodeData).hook) && isDef(i = i.init)) callHook('init', i, vnode);
+          if (isUndef(vnode.text)) vnode.text = '';
+          if (api.getTextContent(node) !== vnode.text) api.setTextContent(node, vnode.text as string);
+          vnode.elm = node;
+          return api.nextSibling(node);
+        }
+      } else if (sel !== undefined) {
+        if (api.isElement(node) &&
+            api.tagName(node).toLowerCase() === parseSelector(sel).tag.toLowerCase()) {
+          hydrateElm(node, vnode, insertedVnodeQueue, report);
+          return api.nextSibling(node);
+        }
+      } else if (api.isText(node)) {
+        text = api.getTextContent(node) as string;
+        if (text !== vnode.text && vnode.text !== '' && text.indexOf(vnode.text as string) === 0) {
+          // Adjacent text vnodes are parsed into a single text node
+          api.setTextContent(node, vnode.text as string);
+          api.insertBefore(parentElm, api.createTextNode(text.slice((vnode.text as string).length)),
+                           api.nextSibling(node));
+        } else if (text !== vnode.text) {
+          report('Expected text "' + vnode.text + '"', vnode, node);
+          api.setTextContent(node, vnode.text as string);
+        }
+        vnode.elm = node;
+        return api.nextSibling(node);
+      }
+    }
+    if (isUndef(sel) && vnode.text === '') {
+      // Empty text is not present in server-rendered markup
+      api.insertBefore(parentElm, createElm(vnode, insertedVnodeQueue), node);
+      return node;
+    }
+    report(node === null ? 'Missing node' : 'Node does not match vnode', vnode, node === null ? undefined : node);
+    api.insertBefore(parentElm, createElm(vnode, insertedVnodeQueue), node);
+    if (node !== null) {
+      const next = api.nextSibling(node);
+      api.removeChild(parentElm, node);
+      return next;
+    }
+    return null;
+  }
+
+  function hydrateChildren(parentElm: Element, children: Array<VNode>,
+                           insertedVnodeQueue: VNodeQueue, report: HydrationMismatchHandler) {
+    let i: number, node: Node | null = parentElm.firstChild;
+    for (i = 0; i < children.length; ++i) {
+      const ch = children[i];
+      if (ch != null) node = hydrateNode(parentElm, node, ch, insertedVnodeQueue, report);
+    }
+    while (node !== null) {
+      const next = api.nextSibling(node);
+      report('Unexpected node', undefined, node);
+      api.removeChild(parentElm, node);
+      node = next;
+    }
+  }
+
+  function noop() {}
+
+  function finishProfile(onProfile: ProfileHandler, start: number, outer: PatchProfile | undefined): void {
+    const report = profile as PatchProfile;
+    report.duration = now() - start;
+    profile = outer; // Restore the report of an enclosing patch
+    onProfile(report);
+  }
+
+  const patch = function patch(oldVnode: VNode | Element, vnode: VNode): VNode {
+    let i: number;
     const insertedVnodeQueue: VNodeQueue = [];
-    for (i = 0; i < cbs.pre.length; ++i) cbs.pre[i]();
+    const outerProfile = profile, start = onProfile !== undefined ? now() : 0;
+    const outerOps = ops, outerUnits = units, outerAttempt = attempt; // A hook may patch while slicing
+    if (onProfile !== undefined) profile = createProfile(modules.length);
+    ops = units = attempt = undefined;
+    supersede(oldVnode);
+    try {
+      for (i = 0; i < cbs.pre.length; ++i) cbs.pre[i](vnode);
+
+      if (!isVnode(oldVnode)) {
+        oldVnode = emptyNodeAt(oldVnode);
+      }
+      if (dev !== undefined) dev.checkPatch(oldVnode, vnode);
+
+      if (sameVnode(oldVnode, vnode)) {
+        patchVnode(oldVnode, vnode, insertedVnodeQueue);
+      } else {
+        createElm(vnode, insertedVnodeQueue);
+        replaceVnode(oldVnode, vnode);
+      }
+
+      callInsertHooks(insertedVnodeQueue);
+      for (i = 0; i < cbs.post.length; ++i) cbs.post[i]();
+      if (onProfile !== undefined) finishProfile(onProfile, start, outerProfile);
+    } finally {
+      // A throwing hook must not leave the state of this patch behind
+      profile = outerProfile;
+      ops = outerOps;
+      units = outerUnits;
+      attempt = outerAttempt;
+    }
+    return vnode;
+  } as Patch;
+
+  // Cancels the sliced patches of the tree that a new patch targets, as
+  // they would commit a stale vnode
+  function supersede(target: VNode | Element): void {
+    const elm = isVnode(target) ? target.elm : target;
+    for (let i = slices.length - 1; i >= 0; --i) {
+      if (slices[i].elm === elm) slices[i].stop(new Error('snabbdom: the sliced patch was superseded by a new patch'));
+    }
+  }
+
+  // Reconciles in chunks that each take at most the budget and yield in
+  // between. Vnodes are created off the document as they are reached,
+  // while all updates of the DOM are deferred and committed at once.
+  patch.sliced = function sliced(oldVnode: VNode | Element, vnode: VNode, options?: SliceOptions): SlicedPatch {
+    let i: number, next = 0, done = false;
+    const budget = options !== undefined && options.budget !== undefined ? options.budget : 8;
+    const requestFrame = options !== undefined && options.requestFrame !== undefined ? options.requestFrame
+                                                                                    : requestAnimationFrame;
+    const sliceProfile = onProfile !== undefined ? createProfile(modules.length) : undefined, start = now();
+    const rootOps: Array<any> = [], rootQueue: Array<any> = [];
+    const created: Attempt = {created: [], destroyed: []}; // Discarded if the patch does not commit
+    supersede(oldVnode);
+    for (i = 0; i < cbs.pre.length; ++i) cbs.pre[i](vnode);
 
     if (!isVnode(oldVnode)) {
       oldVnode = emptyNodeAt(oldVnode);
     }
+    const root = oldVnode;
+    const pending: Array<SliceUnit> = [{oldVnode: oldVnode, vnode: vnode, parentElm: undefined, ops: rootOps, queue: rootQueue}];
+    const slice: PendingSlice = {elm: root.elm, stop: stop};
+    slices.push(slice);
+    let reject: (error: any) => void = noop;
 
-    if (sameVnode(oldVnode, vnode)) {
-      patchVnode(oldVnode, vnode, insertedVnodeQueue);
-    } else {
-      elm = oldVnode.elm as Node;
-      parent = api.parentNode(elm);
+    function finish(): void {
+      done = true;
+      slices.splice(slices.indexOf(slice), 1);
+    }
 
-      createElm(vnode, insertedVnodeQueue);
+    // Destroys the vnodes created so far and ends the patch without
+    // touching the DOM
+    function stop(error: Error): void {
+      let i: number;
+      if (done) return;
+      finish();
+      discardAttempt(created, []);
+      for (i = 0; i < cbs.post.length; ++i) cbs.post[i]();
+      reject(error);
+    }
+
+    function commit(): void {
+      let i: number;
+      // Checked here since a cancelled patch leaves the old vnode unpatched
+      if (dev !== undefined) dev.checkPatch(root, vnode);
+      runOps(rootOps);
+      const insertedVnodeQueue = flattenQueue(rootQueue, []);
+      callInsertHooks(insertedVnodeQueue);
+      for (i = 0; i < cbs.post.length; ++i) cbs.post[i]();
+    }
 
+    const result = new Promise<VNode>(function(resolve, rejectPromise) {
+      reject = rejectPromise;
+      function work(): void {
+        if (done) return;
+        const deadline = now() + budget;
+        const outerProfile = profile, outerOps = ops, outerUnits = units, outerAttempt = attempt;
+        profile = sliceProfile;
+        units = pending;
+        attempt = created;
+        try {
+          do { // At least one unit per chunk
+            const unit = pending[next++];
+            ops = unit.ops;
+            if (sameVnode(unit.oldVnode, unit.vnode)) {
+              patchVnode(unit.oldVnode, unit.vnode, unit.queue, unit.parentElm);
+            } else {
+              createElm(unit.vnode, unit.queue);
+              run(replaceVnode, unit.oldVnode, unit.vnode);
+            }
+          } while (!done && next < pending.length && now() < deadline);
+          if (done) return; // Cancelled by a hook
+          if (next < pending.length) {
+            requestFrame(work);
+          } else {
+            finish();
+            ops = units = attempt = undefined;
+            commit();
+            if (onProfile !== undefined) finishProfile(onProfile, start, outerProfile);
+            resolve(vnode);
+          }
+        } catch (error) {
+          if (done) reject(error); // The commit failed
+          else stop(error);
+        } finally {
+          profile = outerProfile;
+          ops = outerOps;
+          units = outerUnits;
+          attempt = outerAttempt;
+        }
+      }
+      work();
+    }) as SlicedPatch;
+    result.cancel = function() {
+      stop(new Error('snabbdom: the sliced patch was cancelled'));
+    };
+    return result;
+  };
+
+  patch.hydrate = function hydrate(elm: Element, vnode: VNode, onMismatch?: HydrationMismatchHandler): VNode {
+    let i: number;
+    const insertedVnodeQueue: VNodeQueue = [];
+    const outerProfile = profile, start = onProfile !== undefined ? now() : 0;
+    if (onProfile !== undefined) profile = createProfile(modules.length);
+    try {
+      for (i = 0; i < cbs.pre.length; ++i) cbs.pre[i](vnode);
+      if (dev !== undefined) dev.checkTree(vnode);
+
+      const parent = api.parentNode(elm);
       if (parent !== null) {
-        api.insertBefore(parent, vnode.elm as Node, api.nextSibling(elm));
-        removeVnodes(parent, [oldVnode], 0, 0);
+        hydrateNode(parent, elm, vnode, insertedVnodeQueue, onMismatch !== undefined ? onMismatch : noop);
+      } else {
+        // Without a parent a mismatching root can not be replaced
+        const container = api.createElement('div');
+        api.appendChild(container, elm);
+        hydrateNode(container, elm, vnode, insertedVnodeQueue, onMismatch !== undefined ? onMismatch : noop);
+        api.removeChild(container, vnode.elm as Node);
       }
-    }
 
-    for (i = 0; i < insertedVnodeQueue.length; ++i) {
-      (((insertedVnodeQueue[i].data as VNodeData).hook as Hooks).insert as any)(insertedVnodeQueue[i]);
+      callInsertHooks(insertedVnodeQueue);
+      for (i = 0; i < cbs.post.length; ++i) cbs.post[i]();
+      if (onProfile !== undefined) finishProfile(onProfile, start, outerProfile);
+    } finally {
+      profile = outerProfile;
     }
-    for (i = 0; i < cbs.post.length; ++i) cbs.post[i]();
     return vnode;
   };
+
+  return patch;
 }
@@ -0,0 +1,215 @@
+import {VNode, VNodeData} from './vnode';
+import {h, addNS, VNodeChildren, VNodes} from './h';
+import {On, OnEvents} from './modules/eventlisteners';
+
+// The keys of properties that are not methods
+export type PropertyKeys<E> = {[K in keyof E]: E[K] extends Function ? never : K}[keyof E];
+
+// The properties of an element that can be set with the props module
+export type ElementProps<E> = {[K in PropertyKeys<E>]?: E[K]};
+
+// The events of an element with the types of their event objects
+export type ElementEventMap<E> = E extends SVGElement ? SVGElementEventMap : HTMLElementEventMap;
+
+// Handlers of the events of an element only, so that misspelled event
+// names don't compile. Other events are added with `customEvents`.
+export type ElementOn<E> = OnEvents<ElementEventMap<E>>;
+
+export interface TagData<E> extends VNodeData {
+  props?: ElementProps<E>;
+  on?: ElementOn<E>;
+}
+
+// Passes handlers of events that are not in the event map of an element,
+// such as custom events, to `on` of the tag helpers and JSX elements
+export function customEvents(on: On): {} {
+  return on;
+}
+
+// A helper creating vnodes for one tag. When data or children follow, the
+// first argument can be a selector without the tag, such as `.item#first`
+// or `[type=checkbox]`. A single string is always text.
+export interface TagHelper<E> {
+  (): VNode;
+  (data: TagData<E>): VNode;
+  (children: VNodeChildren): VNode;
+  (selector: string, data: TagData<E>): VNode;
+  (selector: string, children: VNodeChildren): VNode;
+  (data: TagData<E>, children: VNodeChildren): VNode;
+  (selector: string, data: TagData<E>, children: VNodeChildren): VNode;
+}
+
+function isSelector(s: any): boolean {
+  return typeof s === 'string' && (s[0] === '.' || s[0] === '#' || s[0] === '[');
+}
+
+function create(name: string, a?: any, b?: any, c?: any): VNode {
+  let sel = name;
+  // text like `.5 kg` or `#1` is not mistaken for a selector
+  if (b !== undefined && isSelector(a)) {
+    sel += a;
+    a = b;
+    b = c;
+  }
+  return a === undefined ? h(sel) : b === undefined ? h(sel, a) : h(sel, a, b);
+}
+
+// Returns the helper for an HTML tag
+export function tag<K extends keyof HTMLElementTagNameMap>(name: K): TagHelper<HTMLElementTagNameMap[K]>;
+export function tag(name: string): TagHelper<HTMLElement>;
+export function tag(name: string): TagHelper<HTMLElement> {
+  return function(a?: any, b?: any, c?: any): VNode {
+    return create(name, a, b, c);
+  };
+}
+
+// Returns the helper for an SVG tag, its vnodes and their children are
+// in the SVG namespace like those in an `svg` vnode created with `h`
+export function svgTag<K extends keyof SVGElementTagNameMap>(name: K): TagHelper<SVGElementTagNameMap[K]>;
+export function svgTag(name: string): TagHelper<SVGElement>;
+export function svgTag(name: string): TagHelper<SVGElement> {
+  return function(a?: any, b?: any, c?: any): VNode {
+    const vnode = create(name, a, b, c);
+    addNS(vnode.data, vnode.children as VNodes, name);
+    return vnode;
+  };
+}
+
+export const a = tag('a');
+export const abbr = tag('abbr');
+export const address = tag('address');
+export const area = tag('area');
+export const article = tag('article');
+export const aside = tag('aside');
+export const audio = tag('audio');
+export const b = tag('b');
+export const base = tag('base');
+export const bdi = tag('bdi');
+export const bdo = tag('bdo');
+export const blockquote = tag('blockquote');
+export const body = tag('body');
+export const br = tag('br');
+export const button = tag('button');
+export const canvas = tag('canvas');
+export const caption = tag('caption');
+export const cite = tag('cite');
+export const code = tag('code');
+export const col = tag('col');
+export const colgroup = tag('colgroup');
+export const data = tag('data');
+export const datalist = tag('datalist');
+export const dd = tag('dd');
+export const del = tag('del');
+export const details = tag('details');
+export const dfn = tag('dfn');
+export const dialog = tag('dialog');
+export const div = tag('div');
+export const dl = tag('dl');
+export const dt = tag('dt');
+export const em = tag('em');
+export const embed = tag('embed');
+export const fieldset = tag('fieldset');
+export const figcaption = tag('figcaption');
+export const figure = tag('figure');
+export const footer = tag('footer');
+export const form = tag('form');
+export const h1 = tag('h1');
+export const h2 = tag('h2');
+export const h3 = tag('h3');
+export const h4 = tag('h4');
+export const h5 = tag('h5');
+export const h6 = tag('h6');
+export const head = tag('head');
+export const header = tag('header');
+export const hgroup = tag('hgroup');
+export const hr = tag('hr');
+export const html = tag('html');
+export const i = tag('i');
+export const iframe = tag('iframe');
+export const img = tag('img');
+export const input = tag('input');
+export const ins = tag('ins');
+export const kbd = tag('kbd');
+export const label = tag('label');
+export const legend = tag('legend');
+export const li = tag('li');
+export const link = tag('link');
+export const main = tag('main');
+export const map = tag('map');
+export const mark = tag('mark');
+export const menu = tag('menu');
+export const meta = tag('meta');
+export const meter = tag('meter');
+export const nav = tag('nav');
+export const noscript = tag('noscript');
+export const object = tag('object');
+export const ol = tag('ol');
+export const optgroup = tag('optgroup');
+export const option = tag('option');
+export const output = tag('output');
+export const p = tag('p');
+export const param = tag('param');
+export const picture = tag('picture');
+export const pre = tag('pre');
+export const progress = tag('progress');
+export const q = tag('q');
+export const rp = tag('rp');
+export const rt = tag('rt');
+export const ruby = tag('ruby');
+export const s = tag('s');
+export const samp = tag('samp');
+export const script = tag('script');
+export const section = tag('section');
+export const select = tag('select');
+export const slot = tag('slot');
+export const small = tag('small');
+export const source = tag('source');
+export const span = tag('span');
+export const strong = tag('strong');
+export const style = tag('style');
+export const sub = tag('sub');
+export const summary = tag('summary');
+export const sup = tag('sup');
+export const table = tag('table');
+export const tbody = tag('tbody');
+export const td = tag('td');
+export const template = tag('template');
+export const textarea = tag('textarea');
+export const tfoot = tag('tfoot');
+export const th = tag('th');
+export const thead = tag('thead');
+export const time = tag('time');
+export const title = tag('title');
+export const tr = tag('tr');
+export const track = tag('track');
+export const u = tag('u');
+export const ul = tag('ul');
+export const video = tag('video');
+export const wbr = tag('wbr');
+
+// SVG elements, `a`, `script`, `style` and `title` are the HTML helpers above
+export const svg = svgTag('svg');
+export const g = svgTag('g');
+export const defs = svgTag('defs');
+export const symbol = svgTag('symbol');
+export const use = svgTag('use');
+export const path = svgTag('path');
+export const rect = svgTag('rect');
+export const circle = svgTag('circle');
+export const ellipse = svgTag('ellipse');
+export const line = svgTag('line');
+export const polyline = svgTag('polyline');
+export const polygon = svgTag('polygon');
+export const text = svgTag('text');
+export const tspan = svgTag('tspan');
+export const textPath = svgTag('textPath');
+export const image = svgTag('image');
+export const clipPath = svgTag('clipPath');
+export const mask = svgTag('mask');
+export const pattern = svgTag('pattern');
+export const marker = svgTag('marker');
+export const linearGradient = svgTag('linearGradient');
+export const radialGradient = svgTag('radialGradient');
+export const stop = svgTag('stop');
+export const filter = svgTag('filter');
+export const foreignObject = svgTag('foreignObject');
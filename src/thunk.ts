@@ -1,9 +1,22 @@
 import {VNode, VNodeData} from './vnode';
 import {h} from './h';
 
+export interface ThunkOptions {
+  // How the args are compared, `'shallow'` compares one level deep and a
+  // function returns true when the old and new args are equal
+  compare?: 'shallow' | ((oldArgs: Array<any>, args: Array<any>) => boolean);
+  // Compares only these fields of the args that are objects
+  fields?: Array<string>;
+  // Renders again even if the args are equal
+  force?: boolean;
+  // Reports why the thunk rendered again, `true` logs to the console
+  debug?: boolean | ((reason: string, thunk: VNode) => void);
+}
+
 export interface ThunkData extends VNodeData {
   fn: () => VNode;
   args: Array<any>;
+  thunk?: ThunkOptions;
 }
 
 export interface Thunk extends VNode {
@@ -11,20 +24,63 @@ export interface Thunk extends VNode {
 }
 
 export interface ThunkFn {
-  (sel: string, fn: Function, args: Array<any>): Thunk;
-  (sel: string, key: any, fn: Function, args: Array<any>): Thunk;
+  (sel: string, fn: Function, args: Array<any>, options?: ThunkOptions): Thunk;
+  (sel: string, key: any, fn: Function, args: Array<any>, options?: ThunkOptions): Thunk;
+}
+
+export function shallowEqual(a: any, b: any): boolean {
+  let key: string;
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  for (key in a) {
+    if (a[key] !== b[key]) return false;
+  }
+  for (key in b) {
+    if (!(key in a)) return false;
+  }
+  return true;
 }
 
 function copyToThunk(vnode: VNode, thunk: VNode): void {
   thunk.elm = vnode.elm;
   (vnode.data as VNodeData).fn = (thunk.data as VNodeData).fn;
   (vnode.data as VNodeData).args = (thunk.data as VNodeData).args;
+  (vnode.data as VNodeData).thunk = (thunk.data as VNodeData).thunk;
   thunk.data = vnode.data;
   thunk.children = vnode.children;
   thunk.text = vnode.text;
   thunk.elm = vnode.elm;
 }
 
+// Returns why the args differ or undefined when they are equal
+function changed(oldArgs: Array<any>, args: Array<any>, options: ThunkOptions): string | undefined {
+  let i: number, j: number;
+  const compare = options.compare, fields = options.fields;
+  if (typeof compare === 'function') {
+    return compare(oldArgs, args) ? undefined : 'the compare function returned false';
+  }
+  for (i = 0; i < args.length; ++i) {
+    const a = oldArgs[i], b = args[i];
+    if (fields !== undefined && typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
+      for (j = 0; j < fields.length; ++j) {
+        if (a[fields[j]] !== b[fields[j]]) return 'field ' + fields[j] + ' of argument ' + i + ' changed';
+      }
+    } else if (compare === 'shallow' ? !shallowEqual(a, b) : a !== b) {
+      return 'argument ' + i + ' changed';
+    }
+  }
+  return undefined;
+}
+
+function report(options: ThunkOptions | undefined, reason: string, thunk: VNode): void {
+  if (options === undefined || !options.debug) return;
+  if (typeof options.debug === 'function') {
+    options.debug(reason, thunk);
+  } else if (typeof console !== 'undefined') {
+    console.info('snabbdom: thunk ' + thunk.sel + ' rendered because ' + reason);
+  }
+}
+
 function init(thunk: VNode): void {
   const cur = thunk.data as VNodeData;
   const vnode = (cur.fn as any).apply(undefined, cur.args);
@@ -32,23 +88,30 @@ function init(thunk: VNode): void {
 }
 
 function prepatch(oldVnode: VNode, thunk: VNode): void {
-  let i: number, old = oldVnode.data as VNodeData, cur = thunk.data as VNodeData;
-  const oldArgs = old.args, args = cur.args;
-  if (old.fn !== cur.fn || (oldArgs as any).length !== (args as any).length) {
+  let reason: string | undefined;
+  const old = oldVnode.data as VNodeData, cur = thunk.data as VNodeData;
+  const oldArgs = old.args as Array<any>, args = cur.args as Array<any>;
+  const options: ThunkOptions = cur.thunk !== undefined ? cur.thunk : {};
+  if (options.force) {
+    reason = 'it was forced';
+  } else if (old.fn !== cur.fn) {
+    reason = 'the render function changed';
+  } else if (oldArgs.length !== args.length) {
+    reason = 'the number of arguments changed';
+  } else {
+    reason = changed(oldArgs, args, options);
+  }
+  if (reason !== undefined) {
+    report(cur.thunk, reason, thunk);
     copyToThunk((cur.fn as any).apply(undefined, args), thunk);
     return;
   }
-  for (i = 0; i < (args as any).length; ++i) {
-    if ((oldArgs as any)[i] !== (args as any)[i]) {
-      copyToThunk((cur.fn as any).apply(undefined, args), thunk);
-      return;
-    }
-  }
   copyToThunk(oldVnode, thunk);
 }
 
-export const thunk = function thunk(sel: string, key?: any, fn?: any, args?: any): VNode {
-  if (args === undefined) {
+export const thunk = function thunk(sel: string, key?: any, fn?: any, args?: any, options?: ThunkOptions): VNode {
+  if (typeof key === 'function') {
+    options = args;
     args = fn;
     fn = key;
     key = undefined;
@@ -57,8 +120,9 @@ export const thunk = function thunk(sel: string, key?: any, fn?: any, args?: any
     key: key,
     hook: {init: init, prepatch: prepatch},
     fn: fn,
-    args: args
+    args: args,
+    thunk: options
   });
 } as ThunkFn;
 
-export default thunk;
\ No newline at end of file
+export default thunk;
@@ -0,0 +1,115 @@
+import {VNode, VNodeData} from './vnode';
+import {Module} from './modules/module';
+import {InitHook} from './hooks';
+import {parseSelector} from './selector';
+import {reportError} from './helpers/boundary';
+import * as is from './is';
+
+// Elements that must not have a closing tag in HTML
+const voidElements: Record<string, boolean> = {
+  area: true, base: true, br: true, col: true, embed: true, hr: true, img: true,
+  input: true, keygen: true, link: true, meta: true, param: true, source: true,
+  track: true, wbr: true
+};
+
+// Elements whose text content is not parsed as HTML
+const rawTextElements: Record<string, boolean> = {script: true, style: true};
+
+const escapes: Record<string, string> = {
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+};
+
+function escape(s: string): string {
+  return s.replace(/[&<>"']/g, function(c) { return escapes[c]; });
+}
+
+function renderAttributes(attributes: Record<string, string>): string {
+  let key: string, html = '';
+  for (key in attributes) {
+    html += attributes[key] === '' ? ' ' + key : ' ' + key + '="' + escape(attributes[key]) + '"';
+  }
+  return html;
+}
+
+function renderChildren(children: Array<VNode | string>, modules: Array<Partial<Module>>,
+                        parentNs: string | undefined): string {
+  let html = '';
+  for (let i = 0; i < children.length; ++i) {
+    const ch = children[i];
+    if (ch != null) html += renderVnode(ch, modules, parentNs);
+  }
+  return html;
+}
+
+function renderVnode(vnode: VNode | string, modules: Array<Partial<Module>>, parentNs: string | undefined): string {
+  let i: number, key: string, data: VNodeData | undefined;
+  if (typeof vnode === 'string') return escape(vnode);
+  data = vnode.data;
+  if (data !== undefined && data.fn !== undefined) {
+    // Thunk, render the vnode it stands for
+    return renderVnode(data.fn.apply(undefined, data.args), modules, parentNs);
+  }
+  if (data !== undefined && data.component !== undefined && data.hook !== undefined) {
+    // Component, render it with its initial state
+    (data.hook.init as InitHook)(vnode);
+  }
+  const sel = vnode.sel;
+  if (sel === '!') {
+    return '<!--' + (vnode.text || '').replace(/--/g, '- -') + '-->';
+  } else if (sel === undefined) {
+    if (is.array(vnode.children)) {
+      // Fragment, the children of portals belong to their target
+      if (data !== undefined && data.portal !== undefined) return '';
+      const boundary = data !== undefined ? data.boundary : undefined;
+      if (boundary === undefined) return renderChildren(vnode.children, modules, parentNs);
+      try {
+        return renderChildren(vnode.children, modules, parentNs);
+      } catch (error) {
+        reportError(boundary, error, {phase: 'create', vnode: vnode});
+        return renderVnode(boundary.fallback(error), modules, parentNs);
+      }
+    }
+    return vnode.text !== undefined ? escape(vnode.text) : '';
+  }
+  const selector = parseSelector(sel);
+  const ns = data !== undefined ? data.ns : undefined;
+  const attributes: Record<string, string> = {};
+  if (ns !== undefined && ns !== parentNs) attributes['xmlns'] = ns;
+  if (selector.id !== undefined) attributes['id'] = selector.id;
+  if (selector.className !== undefined) attributes['class'] = selector.className;
+  for (key in selector.attrs) attributes[key] = (selector.attrs as Record<string, string>)[key];
+  for (i = 0; i < modules.length; ++i) {
+    const hook = modules[i].html;
+    if (hook !== undefined) hook(vnode, attributes);
+  }
+  const tag = selector.tag;
+  let html = '<' + tag + renderAttributes(attributes);
+  if (ns === undefined && voidElements[tag.toLowerCase()] === true) {
+    return html + '>';
+  }
+  let content = '';
+  const props = data !== undefined ? data.props : undefined;
+  if (props !== undefined && props.innerHTML !== undefined) {
+    content = String(props.innerHTML);
+  } else if (props !== undefined && props.textContent !== undefined) {
+    content = escape(String(props.textContent));
+  } else if (is.array(vnode.children)) {
+    for (i = 0; i < vnode.children.length; ++i) {
+      const ch = vnode.children[i];
+      if (ch != null) content += renderVnode(ch, modules, ns);
+    }
+  } else if (is.primitive(vnode.text)) {
+    const text = String(vnode.text);
+    content = ns === undefined && rawTextElements[tag.toLowerCase()] === true ? text : escape(text);
+  }
+  if (ns !== undefined && content === '') {
+    return html + '/>';
+  }
+  return html + '>' + content + '</' + tag + '>';
+}
+
+export function toHTML(vnode: VNode, modules: Array<Partial<Module>>): string {
+  return renderVnode(vnode, modules, undefined);
+}
+
+export default toHTML;
@@ -1,30 +1,94 @@
-import vnode, {VNode} from './vnode';
+import vnode, {VNode, Key} from './vnode';
 import htmlDomApi, {DOMAPI} from './htmldomapi';
+import {elementSelector} from './selector';
+import {camelize, htmlNS} from './util';
 
-export function toVNode(node: Node, domApi?: DOMAPI): VNode {
+export interface ToVNodeOptions {
+  // Map the style attribute to `data.style`
+  style?: boolean;
+  // Map `data-*` attributes to `data.dataset`
+  dataset?: boolean;
+  // Map the class attribute to `data.class` instead of the selector
+  class?: boolean;
+  // Skip text nodes that only contain whitespace
+  skipWhitespace?: boolean;
+  // Returns the key of an element, such as its `data-key` attribute
+  key?: (elm: Element) => Key | null | undefined;
+}
+
+// Parses the declarations of a style attribute, semicolons in quotes and
+// parentheses such as `url("a;b")` do not end a declaration
+function parseStyle(text: string): Record<string, string> {
+  const style: Record<string, string> = {};
+  let i: number, c: string, quote = '', depth = 0, start = 0;
+  for (i = 0; i <= text.length; ++i) {
+    c = text[i];
+    if (quote !== '') {
+      if (c === quote) quote = '';
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')') {
+      depth--;
+    } else if ((c === ';' && depth === 0) || i === text.length) {
+      const declaration = text.slice(start, i), colon = declaration.indexOf(':');
+      start = i + 1;
+      if (colon === -1) continue;
+      const name = declaration.slice(0, colon).trim();
+      if (name !== '') style[name.slice(0, 2) === '--' ? name : camelize(name)] = declaration.slice(colon + 1).trim();
+    }
+  }
+  return style;
+}
+
+function isWhitespace(text: string): boolean {
+  return /^\s*$/.test(text);
+}
+
+export function toVNode(node: Node, domApi?: DOMAPI, options?: ToVNodeOptions): VNode {
   const api: DOMAPI = domApi !== undefined ? domApi : htmlDomApi;
+  const opts: ToVNodeOptions = options !== undefined ? options : {};
   let text: string;
   if (api.isElement(node)) {
-    const id = node.id ? '#' + node.id : '';
-    const cn = node.getAttribute('class');
-    const c = cn ? '.' + cn.split(' ').join('.') : '';
-    const sel = api.tagName(node).toLowerCase() + id + c;
+    const ns = node.namespaceURI;
+    const sel = elementSelector(api.tagName(node), node.getAttribute('id'),
+                                opts.class ? null : node.getAttribute('class'), ns);
+    const data: any = {};
     const attrs: any = {};
     const children: Array<VNode> = [];
-    let name: string;
-    let i: number, n: number;
+    let name: string, value: string;
+    let i: number, n: number, key: Key | null | undefined;
     const elmAttrs = node.attributes;
     const elmChildren = node.childNodes;
     for (i = 0, n = elmAttrs.length; i < n; i++) {
       name = elmAttrs[i].nodeName;
-      if (name !== 'id' && name !== 'class') {
-        attrs[name] = elmAttrs[i].nodeValue;
+      value = elmAttrs[i].nodeValue as string;
+      if (name === 'id' || (name === 'class' && !opts.class)) {
+        continue;
+      } else if (name === 'class') {
+        const classes = value.split(/\s+/);
+        data.class = {};
+        for (let j = 0; j < classes.length; ++j) {
+          if (classes[j] !== '') data.class[classes[j]] = true;
+        }
+      } else if (name === 'style' && opts.style) {
+        data.style = parseStyle(value);
+      } else if (name.slice(0, 5) === 'data-' && opts.dataset) {
+        (data.dataset || (data.dataset = {}))[camelize(name.slice(5))] = value;
+      } else {
+        attrs[name] = value;
       }
     }
+    data.attrs = attrs;
+    if (ns != null && ns !== htmlNS) data.ns = ns;
+    if (opts.key !== undefined && (key = opts.key(node)) != null) data.key = key;
     for (i = 0, n = elmChildren.length; i < n; i++) {
-      children.push(toVNode(elmChildren[i], domApi));
+      if (opts.skipWhitespace && api.isText(elmChildren[i]) &&
+          isWhitespace(api.getTextContent(elmChildren[i]) as string)) continue;
+      children.push(toVNode(elmChildren[i], domApi, options));
     }
-    return vnode(sel, {attrs}, children, undefined, node);
+    return vnode(sel, data, children, undefined, node);
   } else if (api.isText(node)) {
     text = api.getTextContent(node) as string;
     return vnode(undefined, undefined, undefined, text, node);
@@ -36,4 +100,4 @@ export function toVNode(node: Node, domApi?: DOMAPI): VNode {
   }
 }
 
-export default toVNode;
\ No newline at end of file
+export default toVNode;
@@ -0,0 +1,27 @@
+// Calling `requestAnimationFrame` on the window fixes a bug in IE/Edge. See #360 and #409.
+export function requestAnimationFrame(callback: () => void): void {
+  if (typeof window !== 'undefined' && window.requestAnimationFrame) window.requestAnimationFrame(callback);
+  else setTimeout(callback, 0);
+}
+
+export function nextFrame(callback: () => void): void {
+  requestAnimationFrame(function() { requestAnimationFrame(callback); });
+}
+
+// Extra time to wait after transitions and animations should have ended,
+// in case their end events never fire
+export const timeoutMargin = 50;
+
+// Converts a CSS time such as `0.3s` or `300ms` to milliseconds
+export function toMs(time: string): number {
+  const value = parseFloat(time);
+  if (isNaN(value)) return 0;
+  return time.slice(-2) === 'ms' ? value : value * 1000;
+}
+
+export const htmlNS = 'http://www.w3.org/1999/xhtml';
+
+// Converts a dashed name such as `font-size` to camel case
+export function camelize(name: string): string {
+  return name.replace(/-([a-z])/g, function(_, c: string) { return c.toUpperCase(); });
+}
@@ -1,12 +1,16 @@
 import {Hooks} from './hooks';
-import {AttachData} from './helpers/attachto'
+import {Boundary} from './helpers/boundary'
+import {PortalData} from './helpers/portal'
+import {ThunkOptions} from './thunk'
 import {VNodeStyle} from './modules/style'
 import {On} from './modules/eventlisteners'
+import {OnWindow, OnDocument} from './modules/globallisteners'
 import {Attrs} from './modules/attributes'
-import {Classes} from './modules/class'
+import {ClassValue} from './modules/class'
 import {Props} from './modules/props'
 import {Dataset} from './modules/dataset'
 import {Hero} from './modules/hero'
+import {Flip} from './modules/flip'
 
 export type Key = string | number;
 
@@ -22,17 +26,22 @@ export interface VNode {
 export interface VNodeData {
   props?: Props;
   attrs?: Attrs;
-  class?: Classes;
+  class?: ClassValue;
   style?: VNodeStyle;
   dataset?: Dataset;
   on?: On;
+  onWindow?: OnWindow;
+  onDocument?: OnDocument;
   hero?: Hero;
-  attachData?: AttachData;
+  flip?: Flip;
+  portal?: PortalData;
+  boundary?: Boundary;
   hook?: Hooks;
   key?: Key;
   ns?: string; // for SVGs
   fn?: () => VNode; // for thunks
   args?: Array<any>; // for thunks
+  thunk?: ThunkOptions; // for thunks
   [key: string]: any; // for any other 3rd party module
 }
 
@@ -95,4 +95,15 @@ describe('attachTo', function() {
     elm = patch(vnode0, vnode1).elm;
     elm = patch(vnode1, vnode2).elm;
   });
+  it('keeps the key of the vnode', function() {
+    var vnode = attachTo(elm, h('div#attached', {key: 'a'}, 'Text'));
+    assert.equal(vnode.key, 'a');
+    var target = document.createElement('div');
+    var vnode1 = h('div', [attachTo(target, h('i', {key: 1})), attachTo(target, h('b', {key: 2}))]);
+    var vnode2 = h('div', [attachTo(target, h('b', {key: 2})), attachTo(target, h('i', {key: 1}))]);
+    patch(vnode0, vnode1);
+    var i = target.querySelector('i');
+    patch(vnode1, vnode2);
+    assert.strictEqual(target.querySelector('i'), i);
+  });
 });
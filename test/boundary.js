@@ -0,0 +1,134 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/class').default,
+  require('../modules/props').default,
+]);
+var h = require('../h').default;
+var thunk = require('../thunk').default;
+var boundary = require('../helpers/boundary').default;
+var toHTML = require('../tohtml').default;
+
+describe('error boundary', function() {
+  var elm, vnode0, errors;
+  function fallback(error) {
+    return h('p.error', error.message);
+  }
+  function onError(error, context) {
+    errors.push(context.phase + ': ' + error.message);
+  }
+  function failing(message) {
+    return thunk('span', function() { throw new Error(message); }, []);
+  }
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    errors = [];
+  });
+  it('renders the children when nothing fails', function() {
+    patch(vnode0, h('div', [boundary({fallback: fallback, onError: onError}, [h('span', 'Hello')])]));
+    assert.equal(elm.innerHTML, '<span>Hello</span>');
+    assert.deepEqual(errors, []);
+  });
+  it('renders the fallback when creating the children fails', function() {
+    patch(vnode0, h('div', [
+      h('i'),
+      boundary({fallback: fallback, onError: onError}, [h('span', 'Hello'), failing('Broken')]),
+      h('b')
+    ]));
+    assert.equal(elm.innerHTML, '<i></i><p class="error">Broken</p><b></b>');
+    assert.deepEqual(errors, ['create: Broken']);
+  });
+  it('renders the fallback when patching the children fails', function() {
+    function view(children) {
+      return h('div', [h('i'), boundary({fallback: fallback, onError: onError}, children), h('b')]);
+    }
+    var destroyed = 0;
+    var vnode1 = patch(vnode0, view([
+      h('span', {key: 1, hook: {destroy: function() { destroyed++; }}}, 'One'), h('span', {key: 2}, 'Two')
+    ]));
+    var vnode2 = view([
+      h('span', {key: 2}, 'Two'),
+      h('span', {key: 1, hook: {update: function() { throw new Error('Update failed'); }}}, 'One')
+    ]);
+    vnode2 = patch(vnode1, vnode2);
+    assert.equal(elm.innerHTML, '<i></i><p class="error">Update failed</p><b></b>');
+    assert.deepEqual(errors, ['patch: Update failed']);
+    assert.equal(destroyed, 1);
+    patch(vnode2, view([h('span', 'Fixed')]));
+    assert.equal(elm.innerHTML, '<i></i><span>Fixed</span><b></b>');
+  });
+  it('destroys the children created before creating fails', function() {
+    var destroyed = [];
+    function destroy(vnode) { destroyed.push(vnode.sel); }
+    patch(vnode0, h('div', [boundary({fallback: fallback, onError: onError}, [
+      h('span', {hook: {destroy: destroy}}, [h('b', {hook: {destroy: destroy}})]), failing('Broken')
+    ])]));
+    assert.deepEqual(destroyed, ['span', 'b']);
+  });
+  it('destroys every vnode once when patching the children fails', function() {
+    var destroyed = [];
+    function destroy(vnode) { destroyed.push(vnode.key); }
+    function view(children) {
+      return h('div', [boundary({fallback: fallback, onError: onError}, children)]);
+    }
+    var vnode1 = patch(vnode0, view([
+      h('div', {key: 1, hook: {destroy: destroy}}, [h('span', {key: 'removed', hook: {destroy: destroy}})]),
+      h('b', {key: 2, hook: {destroy: destroy}})
+    ]));
+    patch(vnode1, view([
+      h('i', {key: 'created', hook: {destroy: destroy}}),
+      h('div', {key: 1, hook: {destroy: destroy}}, []),
+      h('b', {key: 2, hook: {update: function() { throw new Error('Update failed'); }}}),
+      h('u', {key: 3})
+    ]));
+    assert.equal(elm.innerHTML, '<p class="error">Update failed</p>');
+    assert.deepEqual(destroyed.sort(), [1, 2, 'created', 'removed']);
+  });
+  it('catches errors of thunks on prepatch', function() {
+    function render(n) {
+      if (n > 1) throw new Error('Too big');
+      return h('span', String(n));
+    }
+    function view(n) {
+      return h('div', [boundary({fallback: fallback, onError: onError}, [thunk('span', render, [n])])]);
+    }
+    var vnode1 = patch(vnode0, view(1));
+    patch(vnode1, view(2));
+    assert.equal(elm.innerHTML, '<p class="error">Too big</p>');
+    assert.deepEqual(errors, ['patch: Too big']);
+  });
+  it('renders the fallback when an insert hook fails', function() {
+    var inserted = [];
+    patch(vnode0, h('div', [boundary({fallback: fallback, onError: onError}, [
+      h('span', {hook: {insert: function() { inserted.push('span'); }}}),
+      h('b', {hook: {insert: function() { throw new Error('Insert failed'); }}})
+    ]), h('i', {hook: {insert: function() { inserted.push('i'); }}})]));
+    assert.equal(elm.innerHTML, '<p class="error">Insert failed</p><i></i>');
+    assert.deepEqual(errors, ['insert: Insert failed']);
+    assert.deepEqual(inserted, ['span', 'i']);
+  });
+  it('does not call insert hooks of children that failed', function() {
+    var inserted = [];
+    patch(vnode0, h('div', [boundary({fallback: fallback, onError: onError}, [
+      h('span', {hook: {insert: function() { inserted.push('span'); }}}), failing('Broken')
+    ])]));
+    assert.deepEqual(inserted, []);
+  });
+  it('lets the closest boundary handle an error', function() {
+    var outerErrors = [];
+    patch(vnode0, h('div', [boundary({fallback: fallback, onError: function(error) { outerErrors.push(error); }}, [
+      h('span', 'Outer'),
+      boundary({fallback: fallback, onError: onError}, [failing('Inner')])
+    ])]));
+    assert.equal(elm.innerHTML, '<span>Outer</span><p class="error">Inner</p>');
+    assert.deepEqual(errors, ['create: Inner']);
+    assert.deepEqual(outerErrors, []);
+  });
+  it('renders the fallback to HTML', function() {
+    var vnode = h('div', [boundary({fallback: fallback, onError: onError}, [failing('Broken')])]);
+    assert.equal(toHTML(vnode, []), '<div><p class="error">Broken</p></div>');
+    assert.deepEqual(errors, ['create: Broken']);
+  });
+});
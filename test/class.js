@@ -0,0 +1,69 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/class').default,
+]);
+var h = require('../h').default;
+var toHTML = require('../tohtml').default;
+var classModule = require('../modules/class').default;
+
+describe('class', function() {
+  var elm, vnode0;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+  });
+  it('accepts strings', function() {
+    elm = patch(vnode0, h('div', {class: 'one  two'})).elm;
+    assert.equal(elm.className, 'one two');
+  });
+  it('accepts nested arrays of strings and objects', function() {
+    var active = true, disabled = false;
+    elm = patch(vnode0, h('div', {class: ['one', [active && 'two', disabled && 'three'], {four: true, five: false}, null]})).elm;
+    assert.equal(elm.className, 'one two four');
+  });
+  it('lets later entries win', function() {
+    elm = patch(vnode0, h('div', {class: ['one', {one: false}, 'two']})).elm;
+    assert.equal(elm.className, 'two');
+  });
+  it('updates only the classes that changed', function() {
+    var vnode1 = h('div', {class: ['one', 'two']});
+    var vnode2 = h('div', {class: {two: true, three: true}});
+    elm = patch(vnode0, vnode1).elm;
+    elm.classList.add('external');
+    patch(vnode1, vnode2);
+    assert.equal(elm.className, 'two external three');
+  });
+  it('restores selector classes removed by the class data', function() {
+    var vnode1 = h('div.base.other', {class: {base: false}});
+    var vnode2 = h('div.base.other', {class: {extra: true}});
+    var vnode3 = h('div.base.other', {class: 'base extra'});
+    elm = patch(vnode0, vnode1).elm;
+    assert.equal(elm.className, 'other');
+    patch(vnode1, vnode2);
+    assert.equal(elm.className, 'other base extra');
+    patch(vnode2, vnode3);
+    assert.equal(elm.className, 'other base extra');
+  });
+  it('keeps selector classes when the class data is removed', function() {
+    var vnode1 = h('div.base', {class: 'base extra'});
+    var vnode2 = h('div.base', {class: []});
+    elm = patch(vnode0, vnode1).elm;
+    patch(vnode1, vnode2);
+    assert.equal(elm.className, 'base');
+  });
+  it('updates classes of SVG elements', function() {
+    var vnode1 = h('div', [h('svg', [h('g.base', {class: 'one'})])]);
+    var vnode2 = h('div', [h('svg', [h('g.base', {class: ['two']})])]);
+    elm = patch(vnode0, vnode1).elm;
+    var g = elm.querySelector('g');
+    assert.equal(g.getAttribute('class'), 'base one');
+    patch(vnode1, vnode2);
+    assert.equal(g.getAttribute('class'), 'base two');
+  });
+  it('renders strings and arrays to HTML', function() {
+    assert.equal(toHTML(h('div.base.gone', {class: ['one', {gone: false}]}), [classModule]),
+                 '<div class="base one"></div>');
+  });
+});
@@ -0,0 +1,90 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/class').default,
+  require('../modules/props').default,
+  require('../modules/eventlisteners').default,
+]);
+var h = require('../h').default;
+var component = require('../component').default;
+var toHTML = require('../tohtml').default;
+
+describe('component', function() {
+  var elm, vnode0, log, counter;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    log = [];
+    counter = component(patch, {
+      initialState: function(props) { return props.start; },
+      render: function(instance) {
+        log.push('render ' + instance.props.label + ' ' + instance.state);
+        return h('button', {on: {click: function() {
+          instance.setState(function(count) { return count + 1; });
+        }}}, instance.props.label + ': ' + instance.state);
+      },
+      mount: function(instance) { log.push('mount ' + instance.props.label); },
+      unmount: function(instance) { log.push('unmount ' + instance.props.label); }
+    });
+  });
+  it('renders with its initial state and mounts', function() {
+    patch(vnode0, h('div', [counter({label: 'a', start: 1})]));
+    assert.equal(elm.innerHTML, '<button>a: 1</button>');
+    assert.deepEqual(log, ['render a 1', 'mount a']);
+  });
+  it('patches only its subtree when the state is set', function() {
+    var renderParent = 0;
+    function view() {
+      renderParent++;
+      return h('div', [h('span', 'Counter'), counter({label: 'a', start: 0})]);
+    }
+    patch(vnode0, view());
+    var button = elm.lastChild;
+    button.click();
+    button.click();
+    assert.strictEqual(elm.lastChild, button);
+    assert.equal(button.textContent, 'a: 2');
+    assert.equal(renderParent, 1);
+  });
+  it('keeps its state when the parent patches', function() {
+    var vnode1 = patch(vnode0, h('div', [counter({label: 'a', start: 0})]));
+    elm.querySelector('button').click();
+    var vnode2 = patch(vnode1, h('div', [h('i'), counter({label: 'a', start: 0})]));
+    assert.equal(elm.lastChild.textContent, 'a: 1');
+    patch(vnode2, h('div', [h('i'), counter({label: 'b', start: 0})]));
+    assert.equal(elm.lastChild.textContent, 'b: 1');
+    assert.deepEqual(log, ['render a 0', 'mount a', 'render a 1', 'render b 1']);
+  });
+  it('does not render again when its props are unchanged', function() {
+    var vnode1 = patch(vnode0, h('div', [counter({label: 'a', start: 0})]));
+    patch(vnode1, h('div', [counter({label: 'a', start: 0})]));
+    assert.deepEqual(log, ['render a 0', 'mount a']);
+  });
+  it('follows keys when reordered', function() {
+    var vnode1 = patch(vnode0, h('div', [counter({label: 'a', start: 0}, 'a'), counter({label: 'b', start: 0}, 'b')]));
+    elm.querySelector('button').click();
+    patch(vnode1, h('div', [counter({label: 'b', start: 0}, 'b'), counter({label: 'a', start: 0}, 'a')]));
+    assert.equal(elm.textContent, 'b: 0a: 1');
+  });
+  it('unmounts when removed', function() {
+    var vnode1 = patch(vnode0, h('div', [counter({label: 'a', start: 0}, 'a'), counter({label: 'b', start: 0}, 'b')]));
+    patch(vnode1, h('div', [counter({label: 'b', start: 0}, 'b')]));
+    assert.equal(elm.textContent, 'b: 0');
+    assert.deepEqual(log.slice(4), ['unmount a']);
+  });
+  it('replaces the instance of another component with the same key', function() {
+    var other = component(patch, {
+      initialState: function() { return 'other'; },
+      render: function(instance) { return h('span', instance.state); },
+      mount: function() { log.push('mount other'); }
+    });
+    var vnode1 = patch(vnode0, h('div', [counter({label: 'a', start: 0}, 'x')]));
+    patch(vnode1, h('div', [other({}, 'x')]));
+    assert.equal(elm.innerHTML, '<span>other</span>');
+    assert.deepEqual(log, ['render a 0', 'mount a', 'unmount a', 'mount other']);
+  });
+  it('renders to HTML', function() {
+    assert.equal(toHTML(h('div', [counter({label: 'a', start: 3})]), []), '<div><button>a: 3</button></div>');
+  });
+});
@@ -8,6 +8,7 @@ var patch = snabbdom.init([
   require('../modules/eventlisteners').default,
 ]);
 var h = require('../h').default;
+var fragment = require('../h').fragment;
 var toVNode = require('../tovnode').default;
 var vnode = require('../vnode').default;
 var htmlDomApi = require('../htmldomapi').htmlDomApi;
@@ -603,6 +604,40 @@ describe('snabbdom', function() {
           }
         }
       });
+      it('moves only elements outside the longest stable subsequence', function() {
+        var moves = 0;
+        var countingPatch = snabbdom.init([], Object.assign({}, htmlDomApi, {
+          insertBefore: function(parent, node, ref) {
+            if (node.parentNode !== null) moves++;
+            htmlDomApi.insertBefore(parent, node, ref);
+          }
+        }));
+        var vnode1 = h('div', [0, 1, 2, 3, 4, 5, 6].map(spanNum));
+        var vnode2 = h('div', [1, 2, 3, 4, 0, 6, 5].map(spanNum));
+        elm = countingPatch(vnode0, vnode1).elm;
+        var elms = map(function(c) { return c; }, elm.children);
+        moves = 0;
+        elm = countingPatch(vnode1, vnode2).elm;
+        assert.deepEqual(map(inner, elm.children), ['1', '2', '3', '4', '0', '6', '5']);
+        assert.equal(moves, 2);
+        assert.strictEqual(elm.children[4], elms[0]);
+        assert.strictEqual(elm.children[6], elms[5]);
+      });
+      it('keeps elements of random shuffles', function() {
+        var n, i, arr = [], elms = 14, samples = 5;
+        for (n = 0; n < elms; ++n) { arr[n] = n; }
+        for (n = 0; n < samples; ++n) {
+          var vnode1 = h('span', arr.map(spanNum));
+          var shufArr = shuffle(arr.slice(0));
+          var elm = document.createElement('div');
+          elm = patch(elm, vnode1).elm;
+          var before = map(function(c) { return c; }, elm.children);
+          elm = patch(vnode1, h('span', shufArr.map(spanNum))).elm;
+          for (i = 0; i < elms; ++i) {
+            assert.strictEqual(elm.children[i], before[shufArr[i]]);
+          }
+        }
+      });
       it('supports null/undefined children', function() {
         var vnode1 = h('i', [0, 1, 2, 3, 4, 5].map(spanNum));
         var vnode2 = h('i', [null, 2, undefined, null, 1, 0, null, 5, 4, null, 3, undefined].map(spanNum));
@@ -1085,6 +1120,90 @@ describe('snabbdom', function() {
       });
     });
   });
+  describe('fragments', function() {
+    var parent;
+    beforeEach(function() {
+      parent = document.createElement('div');
+      parent.appendChild(elm);
+    });
+    function spanNum(n) {
+      return h('span', {key: n}, n.toString());
+    }
+    function frag(n) {
+      return fragment({key: n}, [h('b', n.toString()), h('i', n.toString())]);
+    }
+    it('inserts children of a fragment into parent', function() {
+      elm = patch(vnode0, h('div', [h('span', 'a'), fragment([h('b', 'b'), 'c']), h('span', 'd')])).elm;
+      assert.equal(elm.textContent, 'abcd');
+      assert.deepEqual(map(prop('tagName'), elm.children), ['SPAN', 'B', 'SPAN']);
+    });
+    it('can be the root', function() {
+      var vnode1 = fragment([h('span', 'a'), h('span', 'b')]);
+      var vnode2 = fragment([h('span', 'b'), h('i', 'c'), h('span', 'd')]);
+      patch(vnode0, vnode1);
+      assert.equal(parent.textContent, 'ab');
+      assert.equal(parent.children.length, 2);
+      patch(vnode1, vnode2);
+      assert.equal(parent.textContent, 'bcd');
+      assert.deepEqual(map(prop('tagName'), parent.children), ['SPAN', 'I', 'SPAN']);
+    });
+    it('can replace and be replaced as root', function() {
+      var vnode1 = fragment([h('span', 'a'), h('span', 'b')]);
+      var vnode2 = h('div', 'c');
+      patch(vnode0, vnode1);
+      patch(vnode1, vnode2);
+      assert.equal(parent.innerHTML, '<div>c</div>');
+    });
+    it('adds children to an empty fragment', function() {
+      var vnode1 = h('div', [h('span', 'a'), fragment([]), h('span', 'd')]);
+      var vnode2 = h('div', [h('span', 'a'), fragment(['b', h('i', 'c')]), h('span', 'd')]);
+      patch(vnode0, vnode1);
+      elm = patch(vnode1, vnode2).elm;
+      assert.equal(elm.textContent, 'abcd');
+    });
+    it('removes all nodes of a fragment', function() {
+      var destroyed = 0;
+      var hook = {destroy: function() { destroyed++; }};
+      var vnode1 = h('div', [fragment([h('span', {hook: hook}, 'a'), fragment([h('b', {hook: hook})])]), h('i')]);
+      var vnode2 = h('div', [h('i')]);
+      patch(vnode0, vnode1);
+      elm = patch(vnode1, vnode2).elm;
+      assert.equal(elm.innerHTML, '<i></i>');
+      assert.equal(destroyed, 2);
+    });
+    it('reorders keyed fragments', function() {
+      var vnode1 = h('div', [1, 2, 3, 4, 5].map(frag));
+      var vnode2 = h('div', [5, 3, 1, 6, 2].map(frag));
+      patch(vnode0, vnode1);
+      elm = patch(vnode1, vnode2).elm;
+      assert.equal(elm.textContent, '5533116622');
+      assert.equal(elm.children.length, 10);
+    });
+    it('handles random shuffles of fragments and elements', function() {
+      var n, i, arr = [], opacities = [], elms = 14, samples = 5;
+      for (n = 0; n < elms; ++n) { arr[n] = n; }
+      function child(n) { return n % 2 ? frag(n) : spanNum(n); }
+      function text(n) { return n % 2 ? String(n) + n : String(n); }
+      for (n = 0; n < samples; ++n) {
+        var vnode1 = h('span', arr.map(child));
+        var shufArr = shuffle(arr.slice(0));
+        var elm = document.createElement('div');
+        elm = patch(elm, vnode1).elm;
+        var vnode2 = h('span', shufArr.map(child));
+        elm = patch(vnode1, vnode2).elm;
+        assert.equal(elm.textContent, shufArr.map(text).join(''));
+      }
+    });
+    it('updates fragment children in place', function() {
+      var vnode1 = h('div', [fragment({key: 'a'}, [spanNum(1), spanNum(2)]), h('i')]);
+      var vnode2 = h('div', [fragment({key: 'a'}, [spanNum(2), spanNum(1), spanNum(3)]), h('i')]);
+      patch(vnode0, vnode1);
+      var span1 = vnode1.children[0].children[0].elm;
+      elm = patch(vnode1, vnode2).elm;
+      assert.equal(elm.textContent, '213');
+      assert.strictEqual(vnode2.children[0].children[1].elm, span1);
+    });
+  });
   describe('short circuiting', function() {
     it('does not update strictly equal vnodes', function() {
       var result = [];
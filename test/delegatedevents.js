@@ -0,0 +1,167 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var createDelegatedEventsModule = require('../modules/delegatedevents').default;
+var patch = snabbdom.init([
+  createDelegatedEventsModule(),
+]);
+var h = require('../h').default;
+var fragment = require('../h').fragment;
+
+describe('delegated events', function() {
+  var elm, vnode0;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+  });
+  it('adds one listener per event type to the root', function() {
+    var added = [];
+    var addEventListener = elm.addEventListener;
+    elm.addEventListener = function(name) {
+      added.push(name);
+      addEventListener.apply(this, arguments);
+    };
+    var rows = [];
+    for (var i = 0; i < 20; ++i) {
+      rows.push(h('li', {on: {click: function() {}, dblclick: function() {}}}, String(i)));
+    }
+    patch(vnode0, h('div', [h('ul', rows)]));
+    assert.deepEqual(added, ['click', 'dblclick']);
+  });
+  it('calls handlers with the event and the vnode', function() {
+    var result = [];
+    function clicked(ev, vnode) {
+      result.push([ev.type, vnode.sel, this === vnode]);
+    }
+    var vnode1 = patch(vnode0, h('div', [h('ul', [h('li', [h('a', {on: {click: clicked}}, 'Click me')])])]));
+    elm.querySelector('a').click();
+    assert.deepEqual(result, [['click', 'a', true]]);
+    assert.strictEqual(vnode1.elm, elm);
+  });
+  it('calls the handlers of the current vnodes', function() {
+    var result = [];
+    function view(n) {
+      return h('div', [h('button', {on: {click: function() { result.push(n); }}})]);
+    }
+    var vnode1 = patch(vnode0, view(1));
+    elm.firstChild.click();
+    patch(vnode1, view(2));
+    elm.firstChild.click();
+    assert.deepEqual(result, [1, 2]);
+  });
+  it('calls handlers from the target up to the root', function() {
+    var result = [];
+    patch(vnode0, h('div', {on: {click: function() { result.push('div'); }}}, [
+      h('ul', {on: {click: function() { result.push('ul'); }}}, [
+        h('li', {on: {click: [function(item) { result.push(item); }, 'li']}})
+      ])
+    ]));
+    elm.querySelector('li').click();
+    assert.deepEqual(result, ['li', 'ul', 'div']);
+  });
+  it('stops at handlers stopping propagation', function() {
+    var result = [], outside = 0;
+    var parent = document.createElement('section');
+    parent.appendChild(elm);
+    parent.addEventListener('click', function() { outside++; });
+    patch(vnode0, h('div', {on: {click: function() { result.push('div'); }}}, [
+      h('ul', {on: {click: function(ev) { result.push('ul'); ev.stopPropagation(); }}}, [
+        h('li', {on: {click: function() { result.push('li'); }}})
+      ])
+    ]));
+    elm.querySelector('li').click();
+    assert.deepEqual(result, ['li', 'ul']);
+    assert.equal(outside, 0);
+  });
+  it('does not call removed handlers', function() {
+    var result = [];
+    var vnode1 = patch(vnode0, h('div', [h('button', {on: {click: function() { result.push(1); }}})]));
+    var button = elm.firstChild;
+    patch(vnode1, h('div', [h('button')]));
+    button.click();
+    assert.deepEqual(result, []);
+  });
+  it('delegates focus and blur without bubbling', function() {
+    var result = [];
+    document.body.appendChild(elm);
+    patch(vnode0, h('div', {on: {focus: function() { result.push('div focus'); }}}, [
+      h('input', {on: {
+        focus: function(ev, vnode) { result.push(ev.type + ' ' + vnode.sel); },
+        blur: function(ev, vnode) { result.push(ev.type + ' ' + vnode.sel); }
+      }})
+    ]));
+    var input = elm.querySelector('input');
+    input.focus();
+    input.blur();
+    document.body.removeChild(elm);
+    assert.deepEqual(result, ['focusin input', 'focusout input']);
+  });
+  it('delegates events without a bubbling counterpart while capturing', function() {
+    var result = [];
+    patch(vnode0, h('div', {on: {mouseenter: function() { result.push('div'); }}}, [
+      h('ul', [h('li', {on: {mouseenter: function(ev, vnode) { result.push(ev.type + ' ' + vnode.sel); }}})])
+    ]));
+    elm.querySelector('li').dispatchEvent(new MouseEvent('mouseenter', {bubbles: false}));
+    elm.querySelector('ul').dispatchEvent(new MouseEvent('mouseenter', {bubbles: false}));
+    elm.dispatchEvent(new MouseEvent('mouseenter', {bubbles: false}));
+    assert.deepEqual(result, ['mouseenter li', 'div']);
+  });
+  it('listens on the parent of a fragment', function() {
+    var result = [];
+    var parent = document.createElement('section');
+    parent.appendChild(elm);
+    patch(vnode0, fragment([
+      h('button.a', {on: {click: function() { result.push('a'); }}}),
+      h('button.b', {on: {click: function() { result.push('b'); }}})
+    ]));
+    parent.querySelector('.a').click();
+    parent.querySelector('.b').click();
+    assert.deepEqual(result, ['a', 'b']);
+  });
+  it('listens on the root of a sliced patch', function() {
+    var result = [], frames = [];
+    var sliced = patch.sliced(vnode0, h('div', {on: {click: function() { result.push('div'); }}}, [
+      h('ul', {on: {click: function() { result.push('ul'); }}}, [
+        h('li', {on: {click: function() { result.push('li'); }}})
+      ])
+    ]), {budget: 0, requestFrame: function(cb) { frames.push(cb); }});
+    while (frames.length > 0) frames.shift()();
+    return sliced.then(function() {
+      elm.querySelector('li').click();
+      assert.deepEqual(result, ['li', 'ul', 'div']);
+    });
+  });
+  it('calls handlers once when a nested patch adds a root', function() {
+    var result = [];
+    var inner = h('section', {hook: {insert: function(vnode) {
+      patch(vnode, h('section', {on: {click: function() { result.push('section'); }}}, [
+        h('button', {on: {click: function() { result.push('button'); }}})
+      ]));
+    }}});
+    patch(vnode0, h('div', {on: {click: function() { result.push('div'); }}}, [inner]));
+    elm.querySelector('button').click();
+    assert.deepEqual(result, ['button', 'section', 'div']);
+  });
+  it('keeps the event types of each module apart', function() {
+    var added = [];
+    var addEventListener = elm.addEventListener;
+    elm.addEventListener = function(name) {
+      added.push(name);
+      addEventListener.apply(this, arguments);
+    };
+    var patch = snabbdom.init([createDelegatedEventsModule()]);
+    var other = snabbdom.init([createDelegatedEventsModule()]);
+    other(document.createElement('div'), h('div', {on: {keydown: function() {}}}));
+    patch(vnode0, h('div', {on: {click: function() {}}}));
+    assert.deepEqual(added, ['click']);
+  });
+  it('adds the listeners of each module to a shared root', function() {
+    var result = [];
+    var patch = snabbdom.init([createDelegatedEventsModule()]);
+    var other = snabbdom.init([createDelegatedEventsModule()]);
+    var vnode1 = patch(vnode0, h('div', {on: {click: function() { result.push(1); }}}));
+    other(vnode1, h('div', {on: {click: function() { result.push(2); }}}));
+    elm.click();
+    assert.deepEqual(result, [1, 2]);
+  });
+});
@@ -0,0 +1,95 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var createDevH = require('../dev').createDevH;
+var warnings;
+function report(message, path) {
+  warnings.push(message + ' at ' + path);
+}
+var modules = [
+  require('../modules/class').default,
+  require('../modules/props').default,
+];
+var patch = snabbdom.init(modules, undefined, {dev: report});
+var h = createDevH(report);
+
+describe('dev mode', function() {
+  var elm, vnode0;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    warnings = [];
+  });
+  it('does not report valid trees', function() {
+    var vnode1 = h('div#app.a', [h('span', {class: {b: true}}, 'Hi'), 'text', h('!', 'comment')]);
+    var vnode2 = h('div#app.a', [h('ul', [h('li', {key: 1}), h('li', {key: 2}), 'text'])]);
+    vnode1 = patch(vnode0, vnode1);
+    patch(vnode1, vnode2);
+    assert.deepEqual(warnings, []);
+  });
+  it('reports duplicate keys', function() {
+    patch(vnode0, h('ul', [h('li', {key: 'a'}), h('li', {key: 'b'}), h('li', {key: 'a'})]));
+    assert.deepEqual(warnings, ['Duplicate key "a" among siblings at ul > li:nth-child(3)']);
+  });
+  it('reports mixed keyed and unkeyed children', function() {
+    patch(vnode0, h('div', [h('ul.list', [h('li', {key: 1}), h('li')])]));
+    assert.deepEqual(warnings, ['Children mix keyed and unkeyed vnodes at div > ul.list:nth-child(1)']);
+  });
+  it('reports vnodes with text and children', function() {
+    var vnode = h('div', [h('span')]);
+    vnode.text = 'text';
+    patch(vnode0, vnode);
+    assert.deepEqual(warnings, ['Vnode has both text and children at div']);
+  });
+  it('reports vnodes used more than once', function() {
+    var span = h('span');
+    patch(vnode0, h('div', [span, h('b', [span])]));
+    assert.deepEqual(warnings, ['The same vnode object is used more than once at div > b:nth-child(2) > span:nth-child(1)']);
+  });
+  it('reports invalid selectors', function() {
+    h('div.a#b');
+    h('.foo');
+    h('div#app.ok');
+    h('input#box.ok[type=checkbox][title="a b"][disabled]');
+    h('div.a\\.b#c\\#d');
+    h('div[title="a');
+    h('div#a#b');
+    assert.deepEqual(warnings, [
+      'Invalid selector ".foo": empty tag at .foo',
+      'Invalid selector "div[title="a": unterminated quote at div[title="a',
+      'Invalid selector "div#a#b": more than one id at div#a#b'
+    ]);
+  });
+  it('reports children that are not vnodes', function() {
+    h('div', [h('span'), [h('b')]]);
+    assert.deepEqual(warnings, ['Child 1 is not a vnode at div']);
+  });
+  it('reports data keys no module uses', function() {
+    patch(vnode0, h('div', [h('a', {attrs: {href: '#'}, props: {title: 'a'}})]));
+    assert.deepEqual(warnings, ['No registered module uses the data key "attrs" at div > a:nth-child(1)']);
+  });
+  it('does not check data keys when a module does not declare them', function() {
+    var patch = snabbdom.init([{create: function() {}}], undefined, {dev: report});
+    patch(vnode0, h('div', {custom: true}));
+    assert.deepEqual(warnings, []);
+  });
+  it('reports patching an old vnode twice', function() {
+    var vnode1 = patch(vnode0, h('div', 'One'));
+    patch(vnode1, h('div', 'Two'));
+    patch(vnode1, h('div', 'Three'));
+    assert.deepEqual(warnings, ['The old vnode has already been patched, pass the vnode of the previous patch instead at div']);
+  });
+  it('tracks patched vnodes per patch function', function() {
+    var other = snabbdom.init(modules, undefined, {dev: report});
+    var vnode1 = patch(vnode0, h('div', 'One'));
+    other(vnode1, h('div', 'Two'));
+    assert.deepEqual(warnings, []);
+  });
+  it('is off by default', function() {
+    var patch = snabbdom.init(modules);
+    var h = require('../h').default;
+    patch(vnode0, h('ul', [h('li', {key: 'a'}), h('li', {key: 'a'})]));
+    h('.foo');
+    assert.deepEqual(warnings, []);
+  });
+});
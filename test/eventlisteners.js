@@ -175,4 +175,82 @@ describe('event listeners', function() {
     elm.firstChild.click();
     assert.equal(3, result.length);
   });
+  describe('listener options', function() {
+    it('listens in the capture phase', function() {
+      var result = [];
+      var vnode1 = h('div', {on: {click: {handler: function() { result.push('div'); }, capture: true}}}, [
+        h('a', {on: {click: function() { result.push('a'); }}}, 'Click my parent'),
+      ]);
+      elm = patch(vnode0, vnode1).elm;
+      elm.firstChild.click();
+      assert.deepEqual(result, ['div', 'a']);
+    });
+    it('passes passive and once to addEventListener', function() {
+      var options = [];
+      var addEventListener = elm.addEventListener;
+      elm.addEventListener = function(name, listener, opts) {
+        options.push(opts);
+        addEventListener.apply(this, arguments);
+      };
+      patch(vnode0, h('div', {on: {
+        scroll: {handler: function() {}, passive: true},
+        click: {handler: function() {}, once: true},
+        keydown: function() {}
+      }}));
+      assert.deepEqual(options, [
+        {capture: false, passive: true, once: false},
+        {capture: false, passive: false, once: true},
+        false
+      ]);
+    });
+    it('calls once listeners once', function() {
+      var result = [];
+      elm = patch(vnode0, h('div', {on: {click: {handler: function() { result.push(1); }, once: true}}})).elm;
+      elm.click();
+      elm.click();
+      assert.equal(result.length, 1);
+    });
+    it('applies preventDefault and stopPropagation', function() {
+      var result = [], event;
+      var vnode1 = h('div', {on: {click: function() { result.push('div'); }}}, [
+        h('a', {on: {click: {handler: function(ev) { event = ev; }, preventDefault: true, stopPropagation: true}}})
+      ]);
+      elm = patch(vnode0, vnode1).elm;
+      elm.firstChild.click();
+      assert.deepEqual(result, []);
+      assert.equal(event.defaultPrevented, true);
+    });
+    it('only calls self listeners for events on the element', function() {
+      var result = [];
+      var vnode1 = h('div', {on: {click: {handler: function() { result.push('div'); }, self: true}}}, [
+        h('a', 'Click my parent'),
+      ]);
+      elm = patch(vnode0, vnode1).elm;
+      elm.firstChild.click();
+      assert.deepEqual(result, []);
+      elm.click();
+      assert.deepEqual(result, ['div']);
+    });
+    it('filters keyboard events by key', function() {
+      var result = [];
+      function keyed(key, ev) { result.push(key + ' ' + ev.key); }
+      elm = patch(vnode0, h('input', {on: {keydown: {handler: [keyed, 'submit'], keys: ['Enter']}}})).elm;
+      elm.dispatchEvent(new KeyboardEvent('keydown', {key: 'a'}));
+      elm.dispatchEvent(new KeyboardEvent('keydown', {key: 'Enter'}));
+      assert.deepEqual(result, ['submit Enter']);
+    });
+    it('registers the listener again when the options change', function() {
+      var result = [];
+      function view(capture) {
+        return h('div', {on: {click: {handler: function() { result.push('div'); }, capture: capture}}}, [
+          h('a', {on: {click: function() { result.push('a'); }}}, 'Click my parent'),
+        ]);
+      }
+      var vnode1 = view(true);
+      elm = patch(vnode0, vnode1).elm;
+      patch(vnode1, view(false));
+      elm.firstChild.click();
+      assert.deepEqual(result, ['a', 'div']);
+    });
+  });
 });
@@ -0,0 +1,128 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var createFlipModule = require('../modules/flip').default;
+var patch = snabbdom.init([
+  createFlipModule(),
+]);
+var h = require('../h').default;
+
+describe('flip', function() {
+  var elm, vnode0, animations, getBoundingClientRect, animate;
+  // Stacks the children of every element 10px apart, below the parent
+  function rect() {
+    var node = this, top = node.parentElement !== null ? rect.call(node.parentElement).top : 0;
+    while ((node = node.previousElementSibling) !== null) top += 10;
+    return {left: 0, top: top, width: 100, height: 10};
+  }
+  function list(keys, flip) {
+    return h('ul', {flip: flip || {}}, keys.map(function(key) {
+      return h('li', {key: key}, key);
+    }));
+  }
+  function moves() {
+    return animations.map(function(animation) {
+      return animation.elm.textContent + ' ' + animation.keyframes[0].transform;
+    });
+  }
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    animations = [];
+    getBoundingClientRect = Element.prototype.getBoundingClientRect;
+    animate = Element.prototype.animate;
+    Element.prototype.getBoundingClientRect = rect;
+    Element.prototype.animate = function(keyframes, options) {
+      animations.push({elm: this, keyframes: keyframes, options: options});
+    };
+  });
+  afterEach(function() {
+    Element.prototype.getBoundingClientRect = getBoundingClientRect;
+    Element.prototype.animate = animate;
+  });
+  it('animates moved children from their old position', function() {
+    var vnode1 = patch(vnode0, list(['a', 'b', 'c']));
+    patch(vnode1, list(['c', 'a', 'b']));
+    assert.deepEqual(moves(), [
+      'c translate(0px, 20px)',
+      'a translate(0px, -10px)',
+      'b translate(0px, -10px)'
+    ]);
+    assert.deepEqual(animations[0].keyframes[1], {transform: 'none'});
+  });
+  it('does not animate children that did not move', function() {
+    var vnode1 = patch(vnode0, list(['a', 'b', 'c']));
+    patch(vnode1, list(['a', 'c', 'd']));
+    assert.deepEqual(moves(), ['c translate(0px, 10px)']);
+  });
+  it('uses the duration and easing of the parent', function() {
+    var vnode1 = patch(vnode0, list(['a', 'b'], {duration: 500, easing: 'linear'}));
+    patch(vnode1, list(['b', 'a'], {duration: 500, easing: 'linear'}));
+    assert.deepEqual(animations[0].options, {duration: 500, easing: 'linear'});
+  });
+  it('only animates children of parents with flip data', function() {
+    var vnode1 = patch(vnode0, h('ul', [h('li', {key: 'a'}), h('li', {key: 'b'})]));
+    patch(vnode1, h('ul', [h('li', {key: 'b'}), h('li', {key: 'a'})]));
+    assert.deepEqual(animations, []);
+  });
+  it('moves with transitions without web animations', function() {
+    Element.prototype.animate = undefined;
+    var vnode1 = patch(vnode0, list(['a', 'b']));
+    var a = patch(vnode1, list(['b', 'a'])).elm.lastChild;
+    assert.equal(a.style.transition, 'transform 300ms ease');
+    assert.equal(a.style.transform, '');
+    var ev = new Event('transitionend');
+    ev.propertyName = 'transform';
+    a.dispatchEvent(ev);
+    assert.equal(a.style.transition, '');
+  });
+  it('restores the transitions of the element after the move', function() {
+    Element.prototype.animate = undefined;
+    var vnode1 = patch(vnode0, list(['a', 'b']));
+    vnode1.elm.firstChild.style.transition = 'opacity 1s';
+    var a = patch(vnode1, list(['b', 'a'])).elm.lastChild;
+    assert.equal(a.style.transition, 'opacity 1s, transform 300ms ease');
+    var ev = new Event('transitionend');
+    ev.propertyName = 'transform';
+    a.dispatchEvent(ev);
+    assert.equal(a.style.transition, 'opacity 1s');
+  });
+  it('keeps a transition set during the move', function() {
+    Element.prototype.animate = undefined;
+    var vnode1 = patch(vnode0, list(['a', 'b']));
+    var a = patch(vnode1, list(['b', 'a'])).elm.lastChild;
+    a.style.transition = 'color 2s';
+    var ev = new Event('transitionend');
+    ev.propertyName = 'transform';
+    a.dispatchEvent(ev);
+    assert.equal(a.style.transition, 'color 2s');
+  });
+  it('only measures the parents that are updated', function() {
+    var measured = [];
+    Element.prototype.getBoundingClientRect = function() {
+      measured.push(this.textContent);
+      return rect.call(this);
+    };
+    var other = document.createElement('div');
+    patch(other, list(['x', 'y']));
+    var vnode1 = patch(vnode0, list(['a', 'b']));
+    measured = [];
+    patch(vnode1, list(['b', 'a']));
+    assert.deepEqual(measured.sort(), ['a', 'a', 'b', 'b']);
+  });
+  it('measures children before their siblings move', function() {
+    function view(keys) {
+      return h('div', keys.map(function(key) {
+        return h('ul', {key: key, flip: {}}, [h('li', {key: 1}, key + '1'), h('li', {key: 2}, key + '2')]);
+      }));
+    }
+    var vnode1 = patch(vnode0, view(['a', 'b']));
+    patch(vnode1, view(['b', 'a']));
+    assert.deepEqual(moves().sort(), [
+      'a1 translate(0px, -10px)',
+      'a2 translate(0px, -10px)',
+      'b1 translate(0px, 10px)',
+      'b2 translate(0px, 10px)'
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/globallisteners').default,
+]);
+var h = require('../h').default;
+
+describe('global listeners', function() {
+  var elm, vnode0, result;
+  function resize() {
+    window.dispatchEvent(new Event('resize'));
+  }
+  function keydown(key) {
+    document.dispatchEvent(new KeyboardEvent('keydown', {key: key}));
+  }
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    result = [];
+  });
+  it('adds listeners to the window and the document', function() {
+    var vnode1 = patch(vnode0, h('div', {
+      onWindow: {resize: function(ev, vnode) { result.push(ev.type + ' ' + vnode.sel); }},
+      onDocument: {keydown: [function(name, ev) { result.push(name + ' ' + ev.key); }, 'document']}
+    }));
+    resize();
+    keydown('a');
+    assert.deepEqual(result, ['resize div', 'document a']);
+    patch(vnode1, h('div'));
+  });
+  it('calls the handlers of the current vnode', function() {
+    function view(n) {
+      return h('div', {onWindow: {resize: function() { result.push(n); }}});
+    }
+    var vnode1 = patch(vnode0, view(1));
+    resize();
+    var vnode2 = patch(vnode1, view(2));
+    resize();
+    assert.deepEqual(result, [1, 2]);
+    patch(vnode2, h('div'));
+  });
+  it('removes listeners no longer given', function() {
+    var vnode1 = patch(vnode0, h('div', {onWindow: {
+      resize: function() { result.push('resize'); },
+      scroll: function() { result.push('scroll'); }
+    }}));
+    var vnode2 = patch(vnode1, h('div', {onWindow: {scroll: function() { result.push('scroll'); }}}));
+    resize();
+    window.dispatchEvent(new Event('scroll'));
+    assert.deepEqual(result, ['scroll']);
+    patch(vnode2, h('div'));
+  });
+  it('removes the listeners when the vnode is destroyed', function() {
+    var vnode1 = patch(vnode0, h('div', [
+      h('span', {onWindow: {resize: function() { result.push('resize'); }}}),
+      h('span', {onDocument: {keydown: function() { result.push('keydown'); }}})
+    ]));
+    patch(vnode1, h('div'));
+    resize();
+    keydown('a');
+    assert.deepEqual(result, []);
+  });
+  it('supports listener options', function() {
+    var vnode1 = patch(vnode0, h('div', {
+      onDocument: {keydown: {handler: function(ev) { result.push(ev.key); }, keys: ['Escape']}}
+    }));
+    keydown('a');
+    keydown('Escape');
+    assert.deepEqual(result, ['Escape']);
+    patch(vnode1, h('div'));
+  });
+});
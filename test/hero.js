@@ -0,0 +1,115 @@
+var assert = require('assert');
+var fakeRaf = require('fake-raf');
+
+var snabbdom = require('../snabbdom');
+var h = require('../h').default;
+var createHeroModule = require('../modules/hero').createHeroModule;
+
+describe('hero', function() {
+  var elm, vnode0, container, rects, getBoundingClientRect, pageYOffset;
+  function rect(top, left) {
+    return {top: top, left: left, width: 50, height: 10};
+  }
+  function list(hero) {
+    return h('div', [h('ul', [h('li#old', {hero: hero || {id: 'title'}}, [h('b', 'Title')])])]);
+  }
+  function detail(hero) {
+    return h('div', [h('h1#new', {hero: hero || {id: 'title'}}, [h('b', 'Title')])]);
+  }
+  function frame() {
+    fakeRaf.step();
+    fakeRaf.step();
+  }
+  beforeEach(function() {
+    fakeRaf.use();
+    elm = document.createElement('div');
+    vnode0 = elm;
+    container = document.createElement('div');
+    rects = {old: rect(100, 20), new: rect(200, 20)};
+    getBoundingClientRect = Element.prototype.getBoundingClientRect;
+    Element.prototype.getBoundingClientRect = function() {
+      return rects[this.id] || rect(0, 0);
+    };
+    pageYOffset = Object.getOwnPropertyDescriptor(window, 'pageYOffset');
+    Object.defineProperty(window, 'pageYOffset', {value: 30, configurable: true});
+  });
+  afterEach(function() {
+    fakeRaf.restore();
+    Element.prototype.getBoundingClientRect = getBoundingClientRect;
+    if (pageYOffset) Object.defineProperty(window, 'pageYOffset', pageYOffset);
+    else delete window.pageYOffset;
+  });
+  it('starts the new hero where the old one was', function() {
+    var patch = snabbdom.init([createHeroModule({container: container})]);
+    var vnode1 = patch(vnode0, list());
+    var oldElm = vnode1.elm.querySelector('li');
+    var newElm = patch(vnode1, detail()).elm.querySelector('h1');
+    assert.strictEqual(oldElm.parentNode, container);
+    assert.equal(oldElm.style.position, 'absolute');
+    assert.equal(oldElm.style.top, '130px');
+    assert.equal(newElm.style.opacity, '0');
+    assert.equal(newElm.style.transform, 'translate(0px, -100px) scale(1, 1)');
+  });
+  it('transitions with the configured duration and easing', function() {
+    var patch = snabbdom.init([createHeroModule({container: container, duration: 200, easing: 'linear'})]);
+    var vnode1 = patch(vnode0, list());
+    var oldElm = vnode1.elm.querySelector('li');
+    var newElm = patch(vnode1, detail({id: 'title', duration: 400})).elm.querySelector('h1');
+    frame();
+    assert.equal(newElm.style.transition, 'transform 400ms linear, opacity 400ms linear');
+    assert.equal(newElm.style.opacity, '1');
+    assert.equal(oldElm.style.transition, 'transform 400ms linear, opacity 400ms linear');
+    assert.equal(oldElm.style.transform, 'translate(0px, 100px) scale(1, 1)');
+    assert.equal(oldElm.style.opacity, '0');
+  });
+  it('removes the old hero when its transition ends', function() {
+    var patch = snabbdom.init([createHeroModule({container: container, duration: 200})]);
+    var vnode1 = patch(vnode0, list());
+    var oldElm = vnode1.elm.querySelector('li');
+    patch(vnode1, detail());
+    frame();
+    var ev = new Event('transitionend');
+    ev.propertyName = 'transform';
+    oldElm.dispatchEvent(ev);
+    assert.strictEqual(oldElm.parentNode, null);
+  });
+  it('removes the old hero after a timeout', function(done) {
+    var patch = snabbdom.init([createHeroModule({container: container, duration: 0})]);
+    var vnode1 = patch(vnode0, list());
+    var oldElm = vnode1.elm.querySelector('li');
+    patch(vnode1, detail());
+    frame();
+    setTimeout(function() {
+      assert.strictEqual(oldElm.parentNode, null);
+      done();
+    }, 100);
+  });
+  it('finishes running transitions when a new patch starts', function() {
+    var patch = snabbdom.init([createHeroModule({container: container, duration: 200})]);
+    var vnode1 = patch(vnode0, list());
+    var oldElm = vnode1.elm.querySelector('li');
+    var vnode2 = patch(vnode1, detail());
+    var newElm = vnode2.elm.querySelector('h1');
+    patch(vnode2, detail());
+    assert.strictEqual(oldElm.parentNode, null);
+    assert.equal(newElm.style.opacity, '');
+    assert.equal(newElm.style.transform, '');
+    frame();
+    assert.equal(newElm.style.transform, '');
+  });
+  it('does not share state between instances', function() {
+    var patch1 = snabbdom.init([createHeroModule({container: container, duration: 200})]);
+    var patch2 = snabbdom.init([createHeroModule({container: container, duration: 200})]);
+    var vnode1 = patch1(vnode0, list());
+    var oldElm = vnode1.elm.querySelector('li');
+    patch1(vnode1, detail());
+    patch2(document.createElement('div'), detail());
+    assert.strictEqual(oldElm.parentNode, container);
+  });
+  it('exports a module created with the default options', function() {
+    var hero = require('../modules/hero');
+    assert.strictEqual(hero.default, hero.heroModule);
+    assert.equal(typeof hero.default.pre, 'function');
+    assert.equal(typeof hero.default.post, 'function');
+  });
+});
@@ -0,0 +1,119 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var modules = [
+  require('../modules/attributes').default,
+  require('../modules/class').default,
+  require('../modules/props').default,
+  require('../modules/eventlisteners').default,
+];
+var patch = snabbdom.init(modules);
+var h = require('../h').default;
+var fragment = require('../h').fragment;
+var toHTML = require('../tohtml').default;
+
+function serverRender(vnode) {
+  var container = document.createElement('div');
+  container.innerHTML = toHTML(vnode, modules);
+  return container;
+}
+
+describe('hydrate', function() {
+  it('adopts server-rendered elements', function() {
+    var container = serverRender(h('div#app', [h('span.a', 'Hello'), ' world', h('b', 'bold')]));
+    var root = container.firstChild, span = root.firstChild, bold = root.lastChild;
+    var vnode = h('div#app', [h('span.a', 'Hello'), ' world', h('b', 'bold')]);
+    patch.hydrate(root, vnode);
+    assert.strictEqual(vnode.elm, root);
+    assert.strictEqual(vnode.children[0].elm, span);
+    assert.strictEqual(vnode.children[2].elm, bold);
+    assert.strictEqual(container.firstChild, root);
+    assert.equal(container.innerHTML, '<div id="app"><span class="a">Hello</span> world<b>bold</b></div>');
+  });
+  it('attaches event listeners', function() {
+    var clicked = 0;
+    var container = serverRender(h('div', [h('button', 'Click')]));
+    var vnode = h('div', [h('button', {on: {click: function() { clicked++; }}}, 'Click')]);
+    patch.hydrate(container.firstChild, vnode);
+    vnode.children[0].elm.click();
+    assert.equal(clicked, 1);
+  });
+  it('only updates data that differs', function() {
+    var container = serverRender(h('div', {attrs: {title: 'a'}, class: {b: true}}));
+    var root = container.firstChild;
+    var set = 0, setAttribute = root.setAttribute;
+    root.setAttribute = function() {
+      set++;
+      return setAttribute.apply(this, arguments);
+    };
+    patch.hydrate(root, h('div', {attrs: {title: 'a', lang: 'en'}, class: {b: true, c: true}}));
+    assert.equal(set, 1);
+    assert.equal(root.getAttribute('lang'), 'en');
+    assert.equal(root.className, 'b c');
+  });
+  it('lets modules pick the data the element reflects', function() {
+    var created = [];
+    var patch = snabbdom.init([{
+      hydrate: function(vnode, oldData) {
+        if (vnode.elm.title === vnode.data.tooltip) oldData.tooltip = vnode.data.tooltip;
+      },
+      create: function(oldVnode, vnode) {
+        created.push(oldVnode.data.tooltip === vnode.data.tooltip ? 'kept' : 'set');
+      }
+    }]);
+    var root = serverRender(h('div', [h('i', {attrs: {title: 'a'}}), h('b')])).firstChild;
+    patch.hydrate(root, h('div', [h('i', {tooltip: 'a'}), h('b', {tooltip: 'b'})]));
+    assert.deepEqual(created, ['kept', 'kept', 'set']);
+  });
+  it('splits adjacent text nodes', function() {
+    var container = serverRender(h('p', ['Hello', ' ', 'world']));
+    var vnode = h('p', ['Hello', ' ', 'world']);
+    patch.hydrate(container.firstChild, vnode);
+    assert.equal(container.firstChild.childNodes.length, 3);
+    assert.equal(vnode.children[2].elm.textContent, 'world');
+  });
+  it('calls insert hooks', function() {
+    var inserted = [];
+    function insert(vnode) { inserted.push(vnode.elm); }
+    var container = serverRender(h('div', [h('span'), h('i')]));
+    var vnode = h('div', {hook: {insert: insert}}, [h('span', {hook: {insert: insert}}), h('i')]);
+    patch.hydrate(container.firstChild, vnode);
+    assert.deepEqual(inserted, [vnode.children[0].elm, vnode.elm]);
+  });
+  it('reports and patches mismatches locally', function() {
+    var mismatches = [];
+    function onMismatch(message, vnode, node) { mismatches.push(message); }
+    var container = serverRender(h('div', [h('span', 'One'), h('b', 'Two'), h('i', 'Three')]));
+    var root = container.firstChild, span = root.firstChild;
+    var vnode = h('div', [h('span', 'One!'), h('em', 'Two')]);
+    patch.hydrate(root, vnode, onMismatch);
+    assert.deepEqual(mismatches, ['Expected text "One!"', 'Node does not match vnode', 'Unexpected node']);
+    assert.strictEqual(vnode.elm, root);
+    assert.strictEqual(vnode.children[0].elm, span);
+    assert.equal(root.innerHTML, '<span>One!</span><em>Two</em>');
+  });
+  it('replaces a mismatching root', function() {
+    var container = serverRender(h('div', 'Hello'));
+    var vnode = h('section', 'Hello');
+    patch.hydrate(container.firstChild, vnode);
+    assert.equal(container.innerHTML, '<section>Hello</section>');
+  });
+  it('adopts children of fragments', function() {
+    var container = serverRender(h('div', [h('i'), fragment([h('b', '1'), 'text']), h('i')]));
+    var bold = container.firstChild.childNodes[1];
+    var vnode1 = h('div', [h('i'), fragment([h('b', '1'), 'text']), h('i')]);
+    var vnode2 = h('div', [h('i'), fragment([h('b', '2')]), h('i')]);
+    patch.hydrate(container.firstChild, vnode1);
+    assert.strictEqual(vnode1.children[1].children[0].elm, bold);
+    patch(vnode1, vnode2);
+    assert.equal(container.innerHTML, '<div><i></i><b>2</b><i></i></div>');
+  });
+  it('can be patched after hydration', function() {
+    var container = serverRender(h('ul', [h('li', {key: 1}, '1'), h('li', {key: 2}, '2')]));
+    var vnode1 = h('ul', [h('li', {key: 1}, '1'), h('li', {key: 2}, '2')]);
+    var vnode2 = h('ul', [h('li', {key: 2}, '2'), h('li', {key: 1}, '1'), h('li', {key: 3}, '3')]);
+    patch.hydrate(container.firstChild, vnode1);
+    patch(vnode1, vnode2);
+    assert.equal(container.innerHTML, '<ul><li>2</li><li>1</li><li>3</li></ul>');
+  });
+});
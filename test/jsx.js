@@ -0,0 +1,76 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/class').default,
+  require('../modules/props').default,
+  require('../modules/attributes').default,
+  require('../modules/eventlisteners').default,
+]);
+var jsx = require('../jsx').jsx;
+var Fragment = require('../jsx').Fragment;
+var runtime = require('../jsx-runtime');
+
+describe('jsx', function() {
+  var elm, vnode0;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+  });
+  it('maps props onto the data of the modules', function() {
+    function click() {}
+    function insert() {}
+    var vnode = jsx('input', {
+      key: 'k', type: 'checkbox', class: 'a', 'class-b': true, style: {color: 'red'}, 'style-top': '0',
+      on: {click: click}, 'on-change': click, 'data-user-id': '1', 'aria-label': 'Check',
+      'attrs-role': 'switch', hook: {insert: insert}
+    });
+    assert.equal(vnode.key, 'k');
+    assert.deepEqual(vnode.data.props, {type: 'checkbox'});
+    assert.deepEqual(vnode.data.class, ['a', {b: true}]);
+    assert.deepEqual(vnode.data.style, {color: 'red', top: '0'});
+    assert.deepEqual(vnode.data.on, {click: click, change: click});
+    assert.deepEqual(vnode.data.dataset, {userId: '1'});
+    assert.deepEqual(vnode.data.attrs, {'aria-label': 'Check', role: 'switch'});
+    assert.strictEqual(vnode.data.hook.insert, insert);
+  });
+  it('flattens children', function() {
+    var vnode = jsx('ul', null, jsx('li', null, 'a'), [jsx('li', null, 'b'), [null, false, 1]], undefined, true);
+    elm = patch(vnode0, vnode).elm;
+    assert.equal(elm.innerHTML, '<li>a</li><li>b</li>1');
+  });
+  it('uses the text of a single text child', function() {
+    var vnode = jsx('span', null, 'Hello');
+    assert.equal(vnode.text, 'Hello');
+    assert.equal(vnode.children, undefined);
+  });
+  it('sets props of SVG elements as attributes', function() {
+    var vnode = jsx('svg', {viewBox: '0 0 10 10'}, jsx('circle', {r: 5}), jsx('foreignObject', null, jsx('div', {title: 'a'})));
+    assert.deepEqual(vnode.data.attrs, {viewBox: '0 0 10 10'});
+    assert.deepEqual(vnode.children[0].data.attrs, {r: 5});
+    assert.equal(vnode.children[0].data.ns, 'http://www.w3.org/2000/svg');
+    assert.deepEqual(vnode.children[1].children[0].data.props, {title: 'a'});
+  });
+  it('calls function components with props and children', function() {
+    function Item(props) {
+      return jsx('li', {class: props.kind}, props.children);
+    }
+    var vnode = jsx(Item, {kind: 'done', key: 1}, 'Write ', 'tests');
+    elm = patch(vnode0, jsx('ul', null, vnode)).elm;
+    assert.equal(vnode.key, 1);
+    assert.equal(elm.innerHTML, '<li class="done">Write tests</li>');
+  });
+  it('supports fragments', function() {
+    var vnode = jsx('div', null, jsx(Fragment, {key: 'f'}, jsx('b', null, 'a'), 'b'));
+    elm = patch(vnode0, vnode).elm;
+    assert.equal(vnode.children[0].key, 'f');
+    assert.equal(elm.textContent, 'ab');
+  });
+  it('provides the automatic runtime', function() {
+    var vnode = runtime.jsxs('p', {id: 'a', children: ['x', runtime.jsx('b', {children: 'y'})]}, 'k');
+    elm = patch(vnode0, vnode).elm;
+    assert.equal(vnode.key, 'k');
+    assert.equal(elm.outerHTML, '<p id="a">x<b>y</b></p>');
+    assert.strictEqual(runtime.Fragment, Fragment);
+  });
+});
@@ -0,0 +1,107 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/class').default,
+]);
+var h = require('../h').default;
+var lazy = require('../lazy').default;
+var toHTML = require('../tohtml').default;
+
+function defer() {
+  var deferred = {};
+  deferred.promise = new Promise(function(resolve, reject) {
+    deferred.resolve = resolve;
+    deferred.reject = reject;
+  });
+  return deferred;
+}
+
+describe('lazy', function() {
+  var elm, vnode0, loads, options;
+  function load(id) {
+    var deferred = defer();
+    loads.push(deferred);
+    return deferred.promise;
+  }
+  function view(id) {
+    return h('div', [h('h1', 'Panel'), lazy(patch, options, load, [id])]);
+  }
+  // Waits until the promise settled and the handlers of the lazy vnode ran
+  function settled(deferred) {
+    return deferred.promise.then(undefined, function() {});
+  }
+  // Waits until all promise handlers ran
+  function tick() {
+    return new Promise(function(resolve) { setTimeout(resolve, 0); });
+  }
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    loads = [];
+    options = {
+      placeholder: function() { return h('p.loading', 'Loading'); },
+      error: function(error) { return h('p.error', error.message); }
+    };
+  });
+  it('renders the placeholder and then the resolved vnode', function() {
+    patch(vnode0, view(1));
+    assert.equal(elm.innerHTML, '<h1>Panel</h1><p class="loading">Loading</p>');
+    loads[0].resolve(h('span', 'Panel 1'));
+    return settled(loads[0]).then(function() {
+      assert.equal(elm.innerHTML, '<h1>Panel</h1><span>Panel 1</span>');
+    });
+  });
+  it('keeps the resolved vnode when patched with the same args', function() {
+    var vnode1 = patch(vnode0, view(1));
+    loads[0].resolve(h('span', 'Panel 1'));
+    return settled(loads[0]).then(function() {
+      patch(vnode1, view(1));
+      assert.equal(elm.innerHTML, '<h1>Panel</h1><span>Panel 1</span>');
+      assert.equal(loads.length, 1);
+    });
+  });
+  it('ignores the resolution when the args changed', function() {
+    var vnode1 = patch(vnode0, view(1));
+    patch(vnode1, view(2));
+    assert.equal(loads.length, 2);
+    loads[1].resolve(h('span', 'Panel 2'));
+    loads[0].resolve(h('span', 'Panel 1'));
+    return Promise.all([settled(loads[0]), settled(loads[1])]).then(function() {
+      assert.equal(elm.innerHTML, '<h1>Panel</h1><span>Panel 2</span>');
+    });
+  });
+  it('ignores the resolution when destroyed', function() {
+    var vnode1 = patch(vnode0, view(1));
+    patch(vnode1, h('div', [h('h1', 'Panel')]));
+    loads[0].resolve(h('span', 'Panel 1'));
+    return settled(loads[0]).then(function() {
+      assert.equal(elm.innerHTML, '<h1>Panel</h1>');
+    });
+  });
+  it('renders the error vnode when the promise rejects', function() {
+    patch(vnode0, view(1));
+    loads[0].reject(new Error('Not found'));
+    return settled(loads[0]).then(function() {
+      assert.equal(elm.innerHTML, '<h1>Panel</h1><p class="error">Not found</p>');
+    });
+  });
+  it('renders the error vnode when the loader throws', function() {
+    function fail() { throw new Error('Broken'); }
+    patch(vnode0, h('div', [lazy(patch, options, fail, [])]));
+    assert.equal(elm.innerHTML, '<p class="loading">Loading</p>');
+    return tick().then(function() {
+      assert.equal(elm.innerHTML, '<p class="error">Broken</p>');
+    });
+  });
+  it('renders the error vnode when patching the result throws', function() {
+    patch(vnode0, view(1));
+    loads[0].resolve(h('span', {hook: {create: function() { throw new Error('Bad panel'); }}}));
+    return tick().then(function() {
+      assert.equal(elm.innerHTML, '<h1>Panel</h1><p class="error">Bad panel</p>');
+    });
+  });
+  it('renders the placeholder to HTML', function() {
+    assert.equal(toHTML(view(1), []), '<div><h1>Panel</h1><p class="loading">Loading</p></div>');
+  });
+});
@@ -0,0 +1,115 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/class').default,
+]);
+var h = require('../h').default;
+var portal = require('../helpers/portal').default;
+var toHTML = require('../tohtml').default;
+
+describe('portal', function() {
+  var elm, vnode0, target;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    target = document.createElement('div');
+    target.appendChild(document.createElement('header'));
+  });
+  it('renders the children into the target', function() {
+    patch(vnode0, h('div', [h('span', 'In place'), portal(target, [h('p', 'One'), h('p', 'Two')])]));
+    assert.equal(elm.innerHTML, '<span>In place</span>');
+    assert.equal(target.innerHTML, '<header></header><p>One</p><p>Two</p>');
+  });
+  it('finds the target by selector', function() {
+    target.id = 'modals';
+    document.body.appendChild(target);
+    patch(vnode0, h('div', [portal('#modals', [h('p', 'Modal')])]));
+    assert.equal(target.innerHTML, '<header></header><p>Modal</p>');
+    document.body.removeChild(target);
+  });
+  it('finds the target with the DOM API', function() {
+    var htmlDomApi = require('../htmldomapi').default;
+    var queries = [];
+    var patch = snabbdom.init([], Object.assign({}, htmlDomApi, {querySelector: function(selector) {
+      queries.push(selector);
+      return target;
+    }}));
+    patch(vnode0, h('div', [portal('#modals', [h('p', 'Modal')])]));
+    assert.deepEqual(queries, ['#modals']);
+    assert.equal(target.innerHTML, '<header></header><p>Modal</p>');
+  });
+  it('finds the target in the document without querySelector in the DOM API', function() {
+    var htmlDomApi = require('../htmldomapi').default;
+    var api = Object.assign({}, htmlDomApi);
+    delete api.querySelector;
+    var patch = snabbdom.init([], api);
+    target.id = 'modals';
+    document.body.appendChild(target);
+    patch(vnode0, h('div', [portal('#modals', [h('p', 'Modal')])]));
+    assert.equal(target.innerHTML, '<header></header><p>Modal</p>');
+    document.body.removeChild(target);
+  });
+  it('patches the children in the target', function() {
+    var after = document.createElement('footer');
+    var vnode1 = patch(vnode0, h('div', [portal(target, [h('p', {key: 1}, 'One'), h('p', {key: 2}, 'Two')])]));
+    target.appendChild(after);
+    var p2 = target.childNodes[2];
+    patch(vnode1, h('div', [portal(target, [h('p', {key: 2}, 'Two'), h('p', {key: 3}, 'Three')])]));
+    assert.equal(target.innerHTML, '<header></header><p>Two</p><p>Three</p><footer></footer>');
+    assert.strictEqual(target.childNodes[1], p2);
+  });
+  it('moves the children when the target changes', function() {
+    var other = document.createElement('section');
+    var vnode1 = patch(vnode0, h('div', [portal(target, [h('p', 'One')])]));
+    var p = target.lastChild;
+    patch(vnode1, h('div', [portal(other, [h('p', 'Two')])]));
+    assert.equal(target.innerHTML, '<header></header>');
+    assert.equal(other.innerHTML, '<p>Two</p>');
+    assert.strictEqual(other.firstChild, p);
+  });
+  it('removes the children from the target', function() {
+    var calls = [];
+    function remove(vnode, rm) {
+      calls.push('remove ' + vnode.elm.parentNode.tagName);
+      rm();
+    }
+    function destroy() { calls.push('destroy'); }
+    var vnode1 = patch(vnode0, h('div', [
+      h('span'), portal(target, [h('p', {hook: {remove: remove, destroy: destroy}}, 'One')])
+    ]));
+    patch(vnode1, h('div', [h('span')]));
+    assert.equal(target.innerHTML, '<header></header>');
+    assert.equal(elm.innerHTML, '<span></span>');
+    assert.deepEqual(calls, ['destroy', 'remove DIV']);
+  });
+  it('calls insert hooks of the children', function() {
+    var inserted = [];
+    patch(vnode0, h('div', [portal(target, [h('p', {hook: {insert: function(vnode) {
+      inserted.push(vnode.elm.parentNode === target);
+    }}})])]));
+    assert.deepEqual(inserted, [true]);
+  });
+  it('leaves no elements in place', function() {
+    patch(vnode0, h('div', [h('table', [h('tbody', [h('tr', [
+      h('td', 'Cell'), portal(target, [h('div.tooltip', 'Tooltip')])
+    ])])])]));
+    var row = elm.querySelector('tr');
+    assert.equal(row.children.length, 1);
+    assert.equal(row.innerHTML, '<td>Cell</td>');
+  });
+  it('keeps its children in the target when siblings are reordered', function() {
+    function view(keys) {
+      return h('div', keys.map(function(key) {
+        return key === 'portal' ? portal(target, [h('p', 'Portal')], key) : h('span', {key: key}, key);
+      }));
+    }
+    var vnode1 = patch(vnode0, view(['a', 'portal', 'b']));
+    patch(vnode1, view(['b', 'a', 'portal']));
+    assert.equal(elm.innerHTML, '<span>b</span><span>a</span>');
+    assert.equal(target.innerHTML, '<header></header><p>Portal</p>');
+  });
+  it('renders nothing to HTML', function() {
+    assert.equal(toHTML(h('div', [h('span'), portal(target, [h('p')])]), []), '<div><span></span></div>');
+  });
+});
@@ -0,0 +1,101 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var h = require('../h').default;
+var thunk = require('../thunk').default;
+var modules = [
+  require('../modules/class').default,
+  require('../modules/props').default,
+];
+
+describe('profiling', function() {
+  var elm, vnode0, reports, patch;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    reports = [];
+    patch = snabbdom.init(modules, undefined, {
+      profile: function(report) { reports.push(report); }
+    });
+  });
+  it('reports one profile per patch', function() {
+    var vnode1 = patch(vnode0, h('div', 'One'));
+    patch(vnode1, h('div', 'Two'));
+    assert.equal(reports.length, 2);
+    assert(reports[0].duration >= 0);
+  });
+  it('counts created, patched, moved and removed vnodes', function() {
+    function spans(keys) {
+      return h('div', keys.map(function(key) { return h('span', {key: key}, String(key)); }));
+    }
+    var vnode1 = patch(vnode0, spans([1, 2, 3, 4]));
+    assert.equal(reports[0].created, 4);
+    patch(vnode1, spans([4, 1, 2, 5]));
+    var report = reports[1];
+    assert.equal(report.created, 1);
+    assert.equal(report.patched, 4);
+    assert.equal(report.moved, 1);
+    assert.equal(report.removed, 1);
+  });
+  it('counts DOM operations per method', function() {
+    patch(vnode0, h('div', [h('span'), h('b'), 'text']));
+    var domOps = reports[0].domOps;
+    assert.equal(domOps.createElement, 2);
+    assert.equal(domOps.createTextNode, 1);
+    assert.equal(domOps.insertBefore, 3);
+    assert.equal(domOps.removeChild, undefined);
+  });
+  it('records time spent in module and user hooks', function() {
+    var called = 0;
+    var vnode1 = patch(vnode0, h('div', {class: {a: true}}, [h('span', {hook: {insert: function() { called++; }}})]));
+    patch(vnode1, h('div'));
+    assert.equal(called, 1);
+    assert.equal(reports[0].modules.length, 2);
+    assert(reports[0].modules[0].create >= 0);
+    assert(reports[1].modules[1].destroy >= 0);
+    assert(reports[0].hooks.insert >= 0);
+    assert.deepEqual(Object.keys(reports[0].hooks),
+      ['init', 'create', 'insert', 'prepatch', 'update', 'postpatch', 'destroy', 'remove']);
+  });
+  it('counts thunk hits and misses', function() {
+    function numberInSpan(n) {
+      return h('span', 'Number is ' + n);
+    }
+    function view(a, b) {
+      return h('div', [thunk('span', 'a', numberInSpan, [a]), thunk('span', 'b', numberInSpan, [b])]);
+    }
+    var vnode1 = patch(vnode0, view(1, 2));
+    patch(vnode1, view(1, 3));
+    assert.equal(reports[1].thunkHits, 1);
+    assert.equal(reports[1].thunkMisses, 1);
+  });
+  it('keeps reports of nested patches apart', function() {
+    var inner = document.createElement('div');
+    var vnode = h('div', [h('span', {hook: {insert: function() {
+      patch(inner, h('div', [h('b'), h('b')]));
+    }}})]);
+    patch(vnode0, vnode);
+    assert.equal(reports.length, 2);
+    assert.equal(reports[0].created, 2);
+    assert.equal(reports[1].created, 1);
+  });
+  it('restores the enclosing report when a nested patch throws', function() {
+    var inner = document.createElement('div');
+    var vnode = h('div', [h('span', {hook: {insert: function() {
+      assert.throws(function() {
+        patch(inner, h('p', {hook: {create: function() { throw new Error('boom'); }}}));
+      }, /boom/);
+    }}}), h('b')]);
+    patch(vnode0, vnode);
+    assert.equal(reports.length, 1);
+    assert.equal(reports[0].created, 2);
+    patch(vnode, h('div'));
+    assert.equal(reports.length, 2);
+    assert.equal(reports[1].removed, 2);
+  });
+  it('is not called without the option', function() {
+    var patch = snabbdom.init(modules);
+    patch(vnode0, h('div'));
+    assert.equal(reports.length, 0);
+  });
+});
@@ -0,0 +1,88 @@
+var assert = require('assert');
+var fakeRaf = require('fake-raf');
+
+var snabbdom = require('../snabbdom');
+var h = require('../h').default;
+var createScheduler = require('../scheduler').default;
+
+describe('scheduler', function() {
+  var elm, patched, patch;
+  beforeEach(function() {
+    fakeRaf.use();
+    elm = document.createElement('div');
+    patched = [];
+    patch = snabbdom.init([{post: function() { patched.push(elm.textContent); }}]);
+  });
+  afterEach(function() {
+    fakeRaf.restore();
+  });
+  it('patches the latest vnode once per frame', function() {
+    var scheduler = createScheduler(patch, elm);
+    scheduler.render(h('div', 'One'));
+    scheduler.render(h('div', 'Two'));
+    assert.deepEqual(patched, []);
+    fakeRaf.step();
+    assert.deepEqual(patched, ['Two']);
+    scheduler.render(h('div', 'Three'));
+    fakeRaf.step();
+    assert.deepEqual(patched, ['Two', 'Three']);
+  });
+  it('resolves after post hooks have run', function() {
+    var scheduler = createScheduler(patch, elm);
+    var first = scheduler.render(h('div', 'One'));
+    var second = scheduler.render(h('div', 'Two'));
+    fakeRaf.step();
+    return Promise.all([first, second]).then(function(vnodes) {
+      assert.deepEqual(patched, ['Two']);
+      assert.strictEqual(vnodes[0], vnodes[1]);
+      assert.strictEqual(vnodes[0].elm, elm);
+    });
+  });
+  it('flushes urgent renders in a microtask', function() {
+    var scheduler = createScheduler(patch, elm);
+    scheduler.render(h('div', 'Normal'));
+    var urgent = scheduler.render(h('div', 'Urgent'), 'urgent');
+    assert.deepEqual(patched, []);
+    return urgent.then(function() {
+      assert.deepEqual(patched, ['Urgent']);
+      fakeRaf.step();
+      assert.deepEqual(patched, ['Urgent']);
+    });
+  });
+  it('renders requests made after a flush in the next one', function() {
+    var scheduler = createScheduler(patch, elm);
+    return scheduler.render(h('div', 'One'), 'urgent').then(function() {
+      scheduler.render(h('div', 'Two'));
+      fakeRaf.step();
+      assert.deepEqual(patched, ['One', 'Two']);
+    });
+  });
+  it('can be flushed synchronously', function() {
+    var scheduler = createScheduler(patch, elm);
+    scheduler.render(h('div', 'One'));
+    scheduler.flush();
+    assert.deepEqual(patched, ['One']);
+    fakeRaf.step();
+    assert.deepEqual(patched, ['One']);
+  });
+  it('accepts a custom frame scheduler', function() {
+    var frames = [];
+    var scheduler = createScheduler(patch, elm, {requestFrame: function(cb) { frames.push(cb); }});
+    scheduler.render(h('div', 'One'));
+    scheduler.render(h('div', 'Two'));
+    assert.equal(frames.length, 1);
+    frames[0]();
+    assert.deepEqual(patched, ['Two']);
+  });
+  it('rejects when patching fails', function() {
+    var error = new Error('failed');
+    var scheduler = createScheduler(patch, elm);
+    var rendered = scheduler.render(h('div', {hook: {update: function() { throw error; }}}));
+    fakeRaf.step();
+    return rendered.then(function() {
+      throw new Error('Expected rejection');
+    }, function(e) {
+      assert.strictEqual(e, error);
+    });
+  });
+});
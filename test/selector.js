@@ -0,0 +1,107 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var attributesModule = require('../modules/attributes').default;
+var patch = snabbdom.init([attributesModule]);
+var h = require('../h').default;
+var toVNode = require('../tovnode').default;
+var toHTML = require('../tohtml').default;
+var selector = require('../selector');
+
+describe('selector', function() {
+  var elm, vnode0;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+  });
+  describe('parseSelector', function() {
+    it('parses tags, ids and classes in any order', function() {
+      assert.deepEqual(selector.parseSelector('div.a#b.c'),
+                       {tag: 'div', id: 'b', className: 'a c', attrs: undefined});
+    });
+    it('parses attribute selectors', function() {
+      assert.deepEqual(selector.parseSelector('input.a[type=checkbox][disabled][title="a [b]"][alt=\'c\']').attrs,
+                       {type: 'checkbox', disabled: '', title: 'a [b]', alt: 'c'});
+    });
+    it('unescapes names and values', function() {
+      var parsed = selector.parseSelector('div#a\\.b.c\\#d[title="say \\"hi\\""]');
+      assert.equal(parsed.id, 'a.b');
+      assert.equal(parsed.className, 'c#d');
+      assert.equal(parsed.attrs.title, 'say "hi"');
+    });
+    it('throws for invalid parts if strict', function() {
+      assert.equal(selector.parseSelector('div.a..b').className, 'a b');
+      assert.throws(function() { selector.parseSelector('div.a..b', true); }, /empty class/);
+      assert.throws(function() { selector.parseSelector('div]', true); }, /unexpected "\]"/);
+      assert.throws(function() { selector.parseSelector('div[a="b"c]', true); }, /unexpected "c" in an attribute/);
+      assert.throws(function() { selector.parseSelector('div[a', true); }, /unterminated attribute/);
+      assert.throws(function() { selector.parseSelector('my div', true); }, /whitespace in the tag/);
+      assert.equal(selector.parseSelector('div.b#a[title="x" ]', true).id, 'a');
+    });
+  });
+  describe('canonicalSelector', function() {
+    it('keeps simple selectors', function() {
+      assert.equal(selector.canonicalSelector('div#a.b.c'), 'div#a.b.c');
+      assert.equal(selector.canonicalSelector('svg'), 'svg');
+    });
+    it('rewrites selectors without attributes that are not canonical', function() {
+      assert.equal(selector.canonicalSelector('div.b#a'), 'div#a.b');
+      assert.equal(selector.canonicalSelector('div.a..b'), 'div.a.b');
+      assert.equal(selector.canonicalSelector('div#a\\.b'), 'div#a\\.b');
+    });
+    it('orders the id before classes and quotes attribute values', function() {
+      assert.equal(selector.canonicalSelector('input.b#a[type=checkbox][ disabled ]'),
+                   'input#a.b[type="checkbox"][disabled]');
+    });
+    it('round-trips through parseSelector', function() {
+      var sel = selector.canonicalSelector('a#x\\.y[title="a \\"b\\""]');
+      assert.equal(selector.selectorToString(selector.parseSelector(sel)), sel);
+    });
+    it('is used by h', function() {
+      assert.equal(h('input.a#b[type=text]').sel, 'input#b.a[type="text"]');
+    });
+  });
+  it('sets attributes from the selector', function() {
+    elm = patch(vnode0, h('input.check[type=checkbox][disabled]')).elm;
+    assert.equal(elm.className, 'check');
+    assert.equal(elm.getAttribute('type'), 'checkbox');
+    assert.equal(elm.getAttribute('disabled'), '');
+  });
+  it('updates attributes when only they differ in the selector', function() {
+    var vnode1 = h('div', [h('a[title=one][rel=next]')]);
+    var vnode2 = h('div', [h('a[title=two]')]);
+    elm = patch(vnode0, vnode1).elm;
+    var a = elm.firstChild;
+    patch(vnode1, vnode2);
+    assert.strictEqual(elm.firstChild, a);
+    assert.equal(a.getAttribute('title'), 'two');
+    assert.equal(a.hasAttribute('rel'), false);
+  });
+  it('keeps selector attributes removed from the attrs data', function() {
+    var vnode1 = h('input[type=checkbox]', {attrs: {type: 'radio'}});
+    var vnode2 = h('input[type=checkbox]', {attrs: {}});
+    elm = patch(vnode0, vnode1).elm;
+    assert.equal(elm.getAttribute('type'), 'radio');
+    patch(vnode1, vnode2);
+    assert.equal(elm.getAttribute('type'), 'checkbox');
+  });
+  it('matches elements converted with toVNode', function() {
+    elm.innerHTML = '<input id="a" class="x  y" type="checkbox">';
+    var input = elm.firstChild;
+    var vnode1 = toVNode(elm);
+    assert.equal(vnode1.children[0].sel, 'input#a.x.y');
+    patch(vnode1, h('div', [h('input#a.x.y[type=checkbox]')]));
+    assert.strictEqual(elm.firstChild, input);
+    assert.equal(input.getAttribute('type'), 'checkbox');
+  });
+  it('matches the root element of a patch', function() {
+    elm.className = 'a b';
+    var vnode1 = patch(vnode0, h('div.a.b[title=root]'));
+    assert.strictEqual(vnode1.elm, elm);
+    assert.equal(elm.getAttribute('title'), 'root');
+  });
+  it('renders attributes to HTML', function() {
+    assert.equal(toHTML(h('input.a[type=checkbox][checked]'), [attributesModule]),
+                 '<input class="a" type="checkbox" checked>');
+  });
+});
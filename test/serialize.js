@@ -0,0 +1,113 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/class').default,
+  require('../modules/props').default,
+  require('../modules/attributes').default,
+  require('../modules/eventlisteners').default,
+]);
+var h = require('../h').default;
+var fragment = require('../h').fragment;
+var thunk = require('../thunk').default;
+var serialize = require('../serialize').serialize;
+var deserialize = require('../serialize').deserialize;
+
+describe('serialize', function() {
+  var elm, vnode0, result;
+  function select(id, ev) { result.push(id); }
+  function insert() {}
+  var registry = {select: select, insert: insert};
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    result = [];
+  });
+  it('writes a versioned tree without functions', function() {
+    var tree = serialize(h('ul.list', [
+      h('li', {key: 1, on: {click: [select, 1]}, hook: {insert: insert}}, 'One'),
+      'text'
+    ]), registry);
+    assert.deepEqual(JSON.parse(JSON.stringify(tree)), {
+      version: 1,
+      vnode: {sel: 'ul.list', data: {}, children: [
+        {sel: 'li', data: {key: 1, on: {click: [{$fn: 'select'}, 1]}, hook: {insert: {$fn: 'insert'}}}, text: 'One'},
+        {text: 'text'}
+      ]}
+    });
+  });
+  it('round-trips the data of the modules', function() {
+    var data = {
+      key: 'k', ns: 'http://www.w3.org/2000/svg', props: {value: 'a'}, attrs: {disabled: true, tabindex: 1},
+      class: ['a', {b: false}], style: {color: 'red', delayed: {opacity: '1'}, remove: {opacity: '0'}},
+      dataset: {id: '1'}, on: {click: {handler: select, passive: true, keys: ['Enter']}},
+      onWindow: {resize: select}, onDocument: {keydown: [select, 'doc']},
+      hero: {id: 'title', duration: 200}, flip: {duration: 300}, hook: {insert: insert}
+    };
+    var vnode = deserialize(JSON.stringify(serialize(h('svg', data), registry)), registry);
+    assert.deepEqual(vnode.data, data);
+    assert.strictEqual(vnode.data.on.click.handler, select);
+    assert.equal(vnode.key, 'k');
+  });
+  it('leaves out elements', function() {
+    var vnode = patch(vnode0, h('div', [h('span', 'a')]));
+    var tree = serialize(vnode);
+    assert.equal('elm' in tree.vnode, false);
+    assert.equal('elm' in tree.vnode.children[0], false);
+    var copy = deserialize(tree);
+    assert.equal(copy.elm, undefined);
+    assert.equal(copy.children[0].text, 'a');
+  });
+  it('round-trips fragments and comments', function() {
+    var vnode = deserialize(serialize(fragment({key: 'f'}, [h('!', 'note'), 'a'])));
+    assert.equal(vnode.sel, undefined);
+    assert.equal(vnode.key, 'f');
+    assert.equal(vnode.children[0].sel, '!');
+    assert.equal(vnode.children[0].text, 'note');
+    assert.equal(vnode.children[1].text, 'a');
+  });
+  it('can be patched with handlers from the registry', function() {
+    var json = JSON.stringify(serialize(h('button', {on: {click: [select, 'ok']}}, 'OK'), registry));
+    elm = patch(vnode0, deserialize(json, registry)).elm;
+    elm.click();
+    assert.deepEqual(result, ['ok']);
+  });
+  it('throws for functions missing from the registry', function() {
+    assert.throws(function() {
+      serialize(h('a', {on: {click: function() {}}}), registry);
+    }, /not in the handler registry/);
+    var tree = serialize(h('a', {on: {click: select}}), registry);
+    assert.throws(function() { deserialize(tree, {}); }, /Handler "select" is not in the handler registry/);
+  });
+  it('writes thunks by reference and recreates them', function() {
+    function item(label) { return h('li', label); }
+    var vnode = patch(vnode0, h('ul', [thunk('li', 'a', item, ['A'], {compare: 'shallow'})]));
+    var tree = serialize(vnode, {item: item});
+    assert.deepEqual(JSON.parse(JSON.stringify(tree.vnode.children[0])), {
+      sel: 'li', data: {key: 'a', fn: {$fn: 'item'}, args: ['A'], thunk: {compare: 'shallow'}}
+    });
+    var copy = deserialize(JSON.stringify(tree), {item: item});
+    assert.strictEqual(copy.children[0].data.fn, item);
+    assert.equal(copy.children[0].key, 'a');
+    elm = patch(patch(vnode0, h('ul')), copy).elm;
+    assert.equal(elm.firstChild.textContent, 'A');
+  });
+  it('writes components without their state', function() {
+    var component = require('../component').default;
+    function initialState() { return 0; }
+    function render(c) { return h('b', String(c.state)); }
+    var counter = component(patch, {initialState: initialState, render: render});
+    var registry = {initialState: initialState, render: render, patch: patch};
+    var vnode = patch(vnode0, h('div', [counter({n: 1}, 'c')]));
+    assert.equal('instance' in vnode.children[0].data, true);
+    var tree = serialize(vnode, registry);
+    assert.deepEqual(JSON.parse(JSON.stringify(tree.vnode.children[0])), {data: {key: 'c', component: {
+      spec: {initialState: {$fn: 'initialState'}, render: {$fn: 'render'}}, patch: {$fn: 'patch'}, props: {n: 1}
+    }}});
+    elm = patch(document.createElement('div'), deserialize(JSON.stringify(tree), registry)).elm;
+    assert.equal(elm.innerHTML, '<b>0</b>');
+  });
+  it('throws for other versions', function() {
+    assert.throws(function() { deserialize({version: 2, vnode: {}}); }, /Unsupported vnode format version 2/);
+  });
+});
@@ -0,0 +1,253 @@
+var assert = require('assert');
+var shuffle = require('knuth-shuffle').knuthShuffle;
+
+var snabbdom = require('../snabbdom');
+var h = require('../h').default;
+var fragment = require('../h').fragment;
+var thunk = require('../thunk').default;
+var boundary = require('../helpers/boundary').default;
+var portal = require('../helpers/portal').default;
+var modules = [
+  require('../modules/class').default,
+  require('../modules/props').default,
+  require('../modules/eventlisteners').default,
+];
+
+function map(fn, list) {
+  var ret = [];
+  for (var i = 0; i < list.length; ++i) {
+    ret[i] = fn(list[i]);
+  }
+  return ret;
+}
+
+function range(n) {
+  var ret = [];
+  for (var i = 0; i < n; ++i) ret.push(i);
+  return ret;
+}
+
+describe('sliced patch', function() {
+  var elm, vnode0, patch, frames;
+  function requestFrame(cb) { frames.push(cb); }
+  function slice(oldVnode, vnode) {
+    return patch.sliced(oldVnode, vnode, {budget: 0, requestFrame: requestFrame});
+  }
+  function drain() {
+    var count = 0;
+    while (frames.length > 0) {
+      frames.shift()();
+      count++;
+    }
+    return count;
+  }
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+    frames = [];
+    patch = snabbdom.init(modules);
+  });
+  it('yields between chunks and commits at the end', function() {
+    var vnode1 = patch(vnode0, h('div', [h('span', 'One'), h('span', 'Two'), h('span', 'Three')]));
+    var done = slice(vnode1, h('div', [h('span', 'One!'), h('span', 'Two!'), h('b', 'Three!')]));
+    assert.equal(elm.textContent, 'OneTwoThree');
+    assert.equal(frames.length, 1);
+    frames.shift()();
+    assert.equal(elm.textContent, 'OneTwoThree');
+    assert.equal(drain(), 1);
+    assert.equal(elm.innerHTML, '<span>One!</span><span>Two!</span><b>Three!</b>');
+    return done.then(function(vnode) {
+      assert.strictEqual(vnode.elm, elm);
+    });
+  });
+  it('keeps elements of random shuffles', function() {
+    var i, n = 20, keys = range(n);
+    function spanNum(key) {
+      return h('span', {key: key}, [h('i', String(key))]);
+    }
+    var vnode1 = patch(vnode0, h('div', map(spanNum, keys)));
+    for (i = 0; i < 10; ++i) {
+      var elms = map(function(child) { return child; }, elm.children);
+      var shuffled = shuffle(keys.slice()).slice(0, n - 3).concat([n, n + 1]);
+      var vnode2 = h('div', map(spanNum, shuffled));
+      slice(vnode1, vnode2);
+      drain();
+      assert.deepEqual(map(function(child) { return child.textContent; }, elm.children),
+                       map(String, shuffled));
+      for (var j = 0; j < shuffled.length; ++j) {
+        if (shuffled[j] < n) assert.strictEqual(elm.children[j], elms[shuffled[j]]);
+      }
+      vnode1 = patch(vnode2, h('div', map(spanNum, keys)));
+    }
+  });
+  it('calls insert and post hooks in the same order as patch', function() {
+    function view(calls, keys, extra) {
+      function insert(vnode) { calls.push('insert ' + vnode.key); }
+      return h('ul', map(function(key) {
+        return h('li', {key: key, hook: {insert: insert}}, [
+          h('b', {key: key + '-b', hook: {insert: insert}})
+        ]);
+      }, keys).concat(extra));
+    }
+    function run(usePatch) {
+      var calls = [];
+      var patch = snabbdom.init([{post: function() { calls.push('post'); }}]);
+      var vnode1 = patch(document.createElement('ul'), view(calls, [1, 2, 3], []));
+      var vnode2 = view(calls, [4, 3, 5, 1, 6], [fragment([h('i', {key: 'i', hook: {insert: function() {
+        calls.push('insert i');
+      }}})])]);
+      if (usePatch) {
+        patch(vnode1, vnode2);
+      } else {
+        patch.sliced(vnode1, vnode2, {budget: 0, requestFrame: requestFrame});
+        drain();
+      }
+      return calls;
+    }
+    assert.deepEqual(run(false), run(true));
+  });
+  it('patches fragments and thunks', function() {
+    function numberInSpan(n) {
+      return h('span', {key: 'num'}, 'Number is ' + n);
+    }
+    var vnode1 = patch(vnode0, h('div', [
+      h('i'), fragment([h('b', {key: 1}, '1'), h('b', {key: 2}, '2')]), thunk('span', 'num', numberInSpan, [1])
+    ]));
+    slice(vnode1, h('div', [
+      h('i'), fragment([h('b', {key: 2}, '2'), h('b', {key: 3}, '3')]), thunk('span', 'num', numberInSpan, [2])
+    ]));
+    drain();
+    assert.equal(elm.innerHTML, '<i></i><b>2</b><b>3</b><span>Number is 2</span>');
+  });
+  it('patches the children of fragments in units of their own', function() {
+    var vnode1 = patch(vnode0, h('div', [fragment([h('b', '1'), h('b', '2'), h('b', '3')])]));
+    slice(vnode1, h('div', [fragment([h('b', 'One'), h('b', 'Two'), h('b', 'Three')])]));
+    // The root, the fragment and each of its children
+    assert.equal(drain(), 4);
+    assert.equal(elm.innerHTML, '<b>One</b><b>Two</b><b>Three</b>');
+  });
+  it('inserts the children of a fragment at its end found at the commit', function() {
+    var vnode1 = patch(vnode0, h('div', [
+      fragment({key: 'f'}, [h('b', {key: 1}, '1')]), h('i', {key: 'a'}), h('i', {key: 'b'})
+    ]));
+    slice(vnode1, h('div', [
+      h('i', {key: 'b'}), fragment({key: 'f'}, [h('b', {key: 1}, '1'), h('b', {key: 2}, '2')]), h('i', {key: 'a'})
+    ]));
+    drain();
+    assert.equal(elm.innerHTML, '<i></i><b>1</b><b>2</b><i></i>');
+    assert.strictEqual(elm.lastChild, vnode1.children[1].elm);
+  });
+  it('patches fragments in a portal moved to another target', function() {
+    var first = document.createElement('div'), second = document.createElement('div');
+    var vnode1 = patch(vnode0, h('div', [portal(first, [fragment([h('b', '1')]), h('i')])]));
+    slice(vnode1, h('div', [portal(second, [fragment([h('b', '1'), h('b', '2')]), h('i')])]));
+    drain();
+    assert.equal(first.innerHTML, '');
+    assert.equal(second.innerHTML, '<b>1</b><b>2</b><i></i>');
+  });
+  it('renders the fallback of a boundary when its hooks fail at the commit', function() {
+    var errors = [];
+    var options = {
+      fallback: function(error) { return h('p', error.message); },
+      onError: function(error, context) { errors.push(context.phase + ': ' + error.message); }
+    };
+    var vnode1 = patch(vnode0, h('div', [boundary(options, [h('span', {key: 1}, 'One')])]));
+    slice(vnode1, h('div', [boundary(options, [
+      h('span', {key: 1, hook: {update: function() { throw new Error('Failed'); }}}, 'One'), h('span', 'Two')
+    ])]));
+    // The boundary is patched with its children in one unit
+    assert.equal(drain(), 1);
+    assert.equal(elm.innerHTML, '<p>Failed</p>');
+    assert.deepEqual(errors, ['patch: Failed']);
+  });
+  it('renders the fallback of a boundary failing while slicing only at the commit', function() {
+    var options = {fallback: function(error) { return h('p', error.message); }, onError: function() {}};
+    var vnode1 = patch(vnode0, h('div', [boundary(options, [h('span', {key: 1}, 'One')]), h('i')]));
+    slice(vnode1, h('div', [boundary(options, [
+      h('span', {key: 1, hook: {prepatch: function() { throw new Error('Failed'); }}}, 'One')
+    ]), h('i')]));
+    frames.shift()();
+    assert.equal(elm.innerHTML, '<span>One</span><i></i>');
+    drain();
+    assert.equal(elm.innerHTML, '<p>Failed</p><i></i>');
+  });
+  it('replaces the root', function() {
+    var parent = document.createElement('div');
+    parent.appendChild(elm);
+    slice(vnode0, h('section', [h('span', 'Hello')]));
+    drain();
+    assert.equal(parent.innerHTML, '<section><span>Hello</span></section>');
+  });
+  it('does not defer patches made by hooks while slicing', function() {
+    var other = document.createElement('div');
+    var vnode1 = patch(vnode0, h('div', [h('span', 'One')]));
+    slice(vnode1, h('div', [h('span', {hook: {prepatch: function() {
+      patch(other, h('div', 'Nested'));
+    }}}, 'Two')]));
+    frames.shift()();
+    assert.equal(other.textContent, 'Nested');
+    drain();
+    assert.equal(elm.textContent, 'Two');
+  });
+  it('can be cancelled before it commits', function() {
+    var destroyed = [], posts = 0;
+    var patch = snabbdom.init(modules.concat([{post: function() { posts++; }}]));
+    function view(keys) {
+      return h('div', map(function(key) {
+        return h('span', {key: key, hook: {destroy: function() { destroyed.push(key); }}}, String(key));
+      }, keys));
+    }
+    var vnode1 = patch(vnode0, view([1, 2, 3]));
+    var elms = map(function(child) { return child; }, elm.children);
+    var done = patch.sliced(vnode1, view([3, 4, 1]), {budget: 0, requestFrame: requestFrame});
+    frames.shift()();
+    done.cancel();
+    drain();
+    assert.equal(elm.textContent, '123');
+    assert.deepEqual(destroyed, [4]);
+    assert.equal(posts, 2);
+    patch(vnode1, view([2, 3]));
+    assert.equal(elm.textContent, '23');
+    assert.strictEqual(elm.children[0], elms[1]);
+    assert.deepEqual(destroyed, [4, 1]);
+    return done.then(function() {
+      throw new Error('Expected rejection');
+    }, function(e) {
+      assert(/cancelled/.test(e.message));
+    });
+  });
+  it('is superseded by a new patch of the same tree', function() {
+    var vnode1 = patch(vnode0, h('div', [h('span', 'One')]));
+    var first = slice(vnode1, h('div', [h('span', 'Two')]));
+    var second = slice(vnode1, h('div', [h('span', 'Three')]));
+    drain();
+    assert.equal(elm.textContent, 'Three');
+    return first.then(function() {
+      throw new Error('Expected rejection');
+    }, function(e) {
+      assert(/superseded/.test(e.message));
+      return second;
+    }).then(function(vnode2) {
+      var third = slice(vnode2, h('div', [h('span', 'Four')]));
+      patch(vnode2, h('div', [h('span', 'Five')]));
+      drain();
+      assert.equal(elm.textContent, 'Five');
+      return third.then(function() {
+        throw new Error('Expected rejection');
+      }, function(e) {
+        assert(/superseded/.test(e.message));
+      });
+    });
+  });
+  it('rejects when patching fails', function() {
+    var error = new Error('failed');
+    var vnode1 = patch(vnode0, h('div', [h('span')]));
+    var done = slice(vnode1, h('div', [h('span', {hook: {prepatch: function() { throw error; }}})]));
+    drain();
+    return done.then(function() {
+      throw new Error('Expected rejection');
+    }, function(e) {
+      assert.strictEqual(e, error);
+    });
+  });
+});
@@ -2,7 +2,6 @@ var assert = require('assert');
 var fakeRaf = require('fake-raf');
 
 var snabbdom = require('../snabbdom');
-fakeRaf.use();
 var patch = snabbdom.init([
   require('../modules/style').default,
 ]);
@@ -11,6 +10,12 @@ var toVNode = require('../tovnode').default;
 
 describe('style', function() {
   var elm, vnode0;
+  before(function() {
+    fakeRaf.use();
+  });
+  after(function() {
+    fakeRaf.restore();
+  });
   beforeEach(function() {
     elm = document.createElement('div');
     vnode0 = elm;
@@ -132,6 +137,100 @@ describe('style', function() {
         done();
     }, 700);
   });
+  describe('on remove', function() {
+    var parent;
+    beforeEach(function() {
+      parent = document.createElement('div');
+      document.body.appendChild(parent);
+    });
+    afterEach(function() {
+      if (parent.parentNode) document.body.removeChild(parent);
+    });
+    it('removes at once without transitions', function() {
+      var vnode1 = patch(parent, h('div', [h('button', {style: {remove: {opacity: '0'}}})]));
+      patch(vnode1, h('div'));
+      assert.equal(parent.querySelectorAll('button').length, 0);
+    });
+    it('waits for transitions of the applied properties', function() {
+      var vnode1 = patch(parent, h('div', [h('button', {style: {
+        transitionProperty: 'transform, opacity', transitionDuration: '1s', remove: {opacity: '0'}
+      }})]));
+      var button = vnode1.elm.firstChild;
+      patch(vnode1, h('div'));
+      assert.strictEqual(button.parentNode, vnode1.elm);
+      var ev = new Event('transitionend');
+      ev.propertyName = 'transform';
+      button.dispatchEvent(ev);
+      assert.strictEqual(button.parentNode, vnode1.elm);
+      ev = new Event('transitionend');
+      ev.propertyName = 'opacity';
+      button.dispatchEvent(ev);
+      assert.strictEqual(button.parentNode, null);
+    });
+    it('waits for animations', function() {
+      var vnode1 = patch(parent, h('div', [h('button', {style: {
+        animationName: 'fade, slide', animationDuration: '1s', remove: {opacity: '0'}
+      }})]));
+      var button = vnode1.elm.firstChild;
+      patch(vnode1, h('div'));
+      button.dispatchEvent(new Event('animationend'));
+      assert.strictEqual(button.parentNode, vnode1.elm);
+      button.dispatchEvent(new Event('animationend'));
+      assert.strictEqual(button.parentNode, null);
+    });
+    it('removes after a timeout when no end event fires', function(done) {
+      var vnode1 = patch(parent, h('div', [h('button', {style: {
+        transitionProperty: 'all', transitionDuration: '20ms', transitionDelay: '10ms', remove: {opacity: '0'}
+      }})]));
+      var button = vnode1.elm.firstChild;
+      patch(vnode1, h('div'));
+      setTimeout(function() {
+        assert.strictEqual(button.parentNode, vnode1.elm);
+      }, 10);
+      setTimeout(function() {
+        assert.strictEqual(button.parentNode, null);
+        done();
+      }, 150);
+    });
+    it('runs keyframes on create and remove', function() {
+      var animations = [];
+      var animate = Element.prototype.animate;
+      Element.prototype.animate = function(keyframes, options) {
+        var animation = {keyframes: keyframes, options: options, effect: {
+          getComputedTiming: function() { return {endTime: 100}; }
+        }};
+        animations.push(animation);
+        return animation;
+      };
+      var keyframes = {
+        enter: {keyframes: [{opacity: 0}, {opacity: 1}], options: 100},
+        remove: {keyframes: [{opacity: 1}, {opacity: 0}], options: 100}
+      };
+      var vnode1 = patch(parent, h('div', [h('button', {style: {keyframes: keyframes}})]));
+      var button = vnode1.elm.firstChild;
+      patch(vnode1, h('div'));
+      Element.prototype.animate = animate;
+      assert.deepEqual(animations.map(function(a) { return a.keyframes; }),
+                       [keyframes.enter.keyframes, keyframes.remove.keyframes]);
+      assert.strictEqual(button.parentNode, vnode1.elm);
+      animations[1].onfinish();
+      assert.strictEqual(button.parentNode, null);
+    });
+    it('does not run enter keyframes of hydrated elements', function() {
+      var animations = [];
+      var animate = Element.prototype.animate;
+      Element.prototype.animate = function(keyframes) {
+        animations.push(keyframes);
+        return {};
+      };
+      var keyframes = {enter: {keyframes: [{opacity: 0}, {opacity: 1}], options: 100}};
+      parent.innerHTML = '<div><button></button></div>';
+      var vnode1 = patch.hydrate(parent.firstChild, h('div', [h('button', {style: {keyframes: keyframes}})]));
+      patch(vnode1, h('div', [h('button', {style: {keyframes: keyframes}}), h('i', {style: {keyframes: keyframes}})]));
+      Element.prototype.animate = animate;
+      assert.deepEqual(animations, [keyframes.enter.keyframes]);
+    });
+  });
   describe('using toVNode()', function () {
     it('handles (ignoring) comment nodes', function() {
       var comment = document.createComment('yolo');
@@ -147,5 +246,3 @@ describe('style', function() {
     });
   });
 });
-
-fakeRaf.restore();
@@ -0,0 +1,66 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var patch = snabbdom.init([
+  require('../modules/class').default,
+  require('../modules/props').default,
+  require('../modules/attributes').default,
+  require('../modules/eventlisteners').default,
+]);
+var h = require('../h').default;
+var tags = require('../tags');
+
+describe('tags', function() {
+  var elm, vnode0;
+  beforeEach(function() {
+    elm = document.createElement('div');
+    vnode0 = elm;
+  });
+  it('creates vnodes like h', function() {
+    assert.deepEqual(tags.div(), h('div'));
+    assert.deepEqual(tags.p('Text'), h('p', 'Text'));
+    assert.deepEqual(tags.ul([tags.li('a')]), h('ul', [h('li', 'a')]));
+    assert.deepEqual(tags.a({props: {href: '/'}}, 'Home'), h('a', {props: {href: '/'}}, 'Home'));
+  });
+  it('accepts a selector suffix', function() {
+    assert.equal(tags.div('.item#first', {}).sel, 'div#first.item');
+    assert.equal(tags.input('[type=checkbox]', {props: {checked: true}}).sel, 'input[type="checkbox"]');
+    assert.deepEqual(tags.span('.label', ['a']).children[0].text, 'a');
+  });
+  it('treats other strings as text', function() {
+    assert.equal(tags.span('item').text, 'item');
+    assert.equal(tags.span('item').sel, 'span');
+    assert.equal(tags.span('.5 kg').text, '.5 kg');
+    assert.equal(tags.span('.5 kg').sel, 'span');
+    assert.equal(tags.p('#1 rated').text, '#1 rated');
+    assert.equal(tags.td('[draft]').text, '[draft]');
+    assert.equal(tags.td('[draft]').sel, 'td');
+  });
+  it('puts SVG vnodes in the SVG namespace', function() {
+    var circle = tags.circle({attrs: {r: 5}});
+    var text = tags.text('.label', 'Hi');
+    var object = tags.foreignObject([tags.div('Inside')]);
+    var g = tags.g([circle, text, object]);
+    assert.equal(circle.data.ns, 'http://www.w3.org/2000/svg');
+    assert.equal(text.data.ns, 'http://www.w3.org/2000/svg');
+    assert.equal(g.data.ns, 'http://www.w3.org/2000/svg');
+    assert.equal(object.children[0].data.ns, undefined);
+    elm = patch(vnode0, tags.div([tags.svg([g])])).elm;
+    assert.equal(elm.querySelector('circle').namespaceURI, 'http://www.w3.org/2000/svg');
+    assert.equal(elm.querySelector('foreignObject div').namespaceURI, 'http://www.w3.org/1999/xhtml');
+  });
+  it('creates helpers for other tags', function() {
+    var variable = tags.tag('var');
+    elm = patch(vnode0, tags.p(['Let ', variable('x'), ' be 1'])).elm;
+    assert.equal(elm.innerHTML, 'Let <var>x</var> be 1');
+  });
+  it('passes handlers of custom events', function() {
+    var result = [];
+    function select(ev) { result.push(ev.detail); }
+    var on = tags.customEvents({'item-select': select});
+    assert.deepEqual(on, {'item-select': select});
+    elm = patch(vnode0, tags.div({on: on})).elm;
+    elm.dispatchEvent(new CustomEvent('item-select', {detail: 1}));
+    assert.deepEqual(result, [1]);
+  });
+});
@@ -229,4 +229,66 @@ describe('thunk', function() {
     patch(vnode1, vnode2);
     assert.equal(called, 1);
   });
+  describe('options', function() {
+    var called;
+    function userView(user) {
+      called++;
+      return h('span', user.name);
+    }
+    function render(args, options) {
+      var vnode1 = h('div', [thunk('span', userView, args[0], options)]);
+      var vnode2 = h('div', [thunk('span', userView, args[1], options)]);
+      elm = document.createElement('div');
+      patch(patch(elm, vnode1), vnode2);
+      return elm.textContent;
+    }
+    beforeEach(function() {
+      called = 0;
+    });
+    it('compares args by reference by default', function() {
+      render([[{name: 'Ann'}], [{name: 'Ann'}]]);
+      assert.equal(called, 2);
+    });
+    it('compares args shallowly', function() {
+      render([[{name: 'Ann', age: 3}], [{name: 'Ann', age: 3}]], {compare: 'shallow'});
+      assert.equal(called, 1);
+      assert.equal(render([[{name: 'Ann'}], [{name: 'Bob'}]], {compare: 'shallow'}), 'Bob');
+      assert.equal(called, 3);
+    });
+    it('compares args with a function', function() {
+      function sameName(oldArgs, args) {
+        return oldArgs[0].name === args[0].name;
+      }
+      render([[{name: 'Ann', age: 3}], [{name: 'Ann', age: 4}]], {compare: sameName});
+      assert.equal(called, 1);
+    });
+    it('compares only the selected fields', function() {
+      var options = {fields: ['name']};
+      render([[{name: 'Ann', age: 3}], [{name: 'Ann', age: 4}]], options);
+      assert.equal(called, 1);
+      assert.equal(render([[{name: 'Ann'}], [{name: 'Bob'}]], options), 'Bob');
+      assert.equal(called, 3);
+    });
+    it('renders again when forced', function() {
+      var user = {name: 'Ann'};
+      render([[user], [user]], {force: true});
+      assert.equal(called, 2);
+    });
+    it('reports why it rendered again', function() {
+      var reasons = [];
+      function debug(reason, vnode) {
+        reasons.push(vnode.sel + ': ' + reason);
+      }
+      var user = {name: 'Ann'};
+      render([[user], [user]], {debug: debug});
+      render([[user, 1], [user, 2]], {debug: debug});
+      render([[{name: 'Ann'}], [{name: 'Bob'}]], {fields: ['name'], debug: debug});
+      render([[user], [user, 1]], {debug: debug});
+      assert.deepEqual(reasons, [
+        'span: argument 1 changed',
+        'span: field name of argument 0 changed',
+        'span: the number of arguments changed'
+      ]);
+    });
+  });
 });
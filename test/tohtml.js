@@ -0,0 +1,75 @@
+var assert = require('assert');
+
+var h = require('../h').default;
+var fragment = require('../h').fragment;
+var thunk = require('../thunk').default;
+var toHTML = require('../tohtml').default;
+var modules = [
+  require('../modules/attributes').default,
+  require('../modules/class').default,
+  require('../modules/props').default,
+  require('../modules/style').default,
+  require('../modules/dataset').default,
+  require('../modules/eventlisteners').default,
+];
+
+describe('toHTML', function() {
+  it('renders element with id and classes from selector', function() {
+    assert.equal(toHTML(h('div#foo.a.b'), []), '<div id="foo" class="a b"></div>');
+  });
+  it('renders text and children', function() {
+    var vnode = h('ul', [h('li', 'One'), h('li', ['Two', h('b', 'three')])]);
+    assert.equal(toHTML(vnode, []), '<ul><li>One</li><li>Two<b>three</b></li></ul>');
+  });
+  it('escapes text and attribute values', function() {
+    var vnode = h('a', {attrs: {title: '"quoted" & <b>'}}, '<script>alert(1)</script>');
+    assert.equal(toHTML(vnode, modules),
+      '<a title="&quot;quoted&quot; &amp; &lt;b&gt;">&lt;script&gt;alert(1)&lt;/script&gt;</a>');
+  });
+  it('does not close void elements', function() {
+    var vnode = h('p', [h('img', {attrs: {src: 'a.png'}}), h('br'), h('input', {props: {disabled: true}})]);
+    assert.equal(toHTML(vnode, modules), '<p><img src="a.png"><br><input disabled></p>');
+  });
+  it('renders output of modules', function() {
+    var vnode = h('div.a', {
+      class: {b: true, c: false},
+      props: {title: 'Title', className: 'd'},
+      attrs: {'aria-hidden': true, hidden: false},
+      style: {fontSize: '12px', '--color': 'red', delayed: {opacity: '1'}},
+      dataset: {fooBar: 'baz'},
+      on: {click: function() {}}
+    });
+    assert.equal(toHTML(vnode, modules),
+      '<div class="a b d" aria-hidden title="Title" style="font-size: 12px; --color: red" data-foo-bar="baz"></div>');
+  });
+  it('only renders data of the given modules', function() {
+    var vnode = h('div', {class: {a: true}, style: {color: 'red'}});
+    assert.equal(toHTML(vnode, [require('../modules/style').default]), '<div style="color: red"></div>');
+  });
+  it('renders innerHTML without escaping', function() {
+    var vnode = h('div', {props: {innerHTML: '<b>bold</b>'}});
+    assert.equal(toHTML(vnode, modules), '<div><b>bold</b></div>');
+  });
+  it('renders comments', function() {
+    assert.equal(toHTML(h('div', [h('!', 'a comment')]), []), '<div><!--a comment--></div>');
+  });
+  it('renders svg with namespace', function() {
+    var vnode = h('div', [
+      h('svg', {attrs: {width: 10}}, [h('circle', {attrs: {r: 5}}), h('foreignObject', [h('br')])])
+    ]);
+    assert.equal(toHTML(vnode, modules),
+      '<div><svg xmlns="http://www.w3.org/2000/svg" width="10"><circle r="5"/>' +
+      '<foreignObject><br></foreignObject></svg></div>');
+  });
+  it('renders children of fragments', function() {
+    var vnode = h('ul', [h('li', '1'), fragment([h('li', '2'), h('li', '3')])]);
+    assert.equal(toHTML(vnode, []), '<ul><li>1</li><li>2</li><li>3</li></ul>');
+  });
+  it('expands thunks', function() {
+    function numberInSpan(n) {
+      return h('span', 'Number is ' + n);
+    }
+    var vnode = h('div', [thunk('span', 'num', numberInSpan, [22])]);
+    assert.equal(toHTML(vnode, []), '<div><span>Number is 22</span></div>');
+  });
+});
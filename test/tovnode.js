@@ -0,0 +1,74 @@
+var assert = require('assert');
+
+var snabbdom = require('../snabbdom');
+var h = require('../h').default;
+var toVNode = require('../tovnode').default;
+
+describe('toVNode options', function() {
+  var elm;
+  beforeEach(function() {
+    elm = document.createElement('div');
+  });
+  it('maps the style attribute to style data', function() {
+    elm.innerHTML = '<p style="color: red; --gap: 2px; background-image: url(&quot;a;b.png&quot;); -webkit-line-clamp: 2"></p>';
+    var vnode = toVNode(elm.firstChild, undefined, {style: true});
+    assert.deepEqual(vnode.data.style, {
+      color: 'red', '--gap': '2px', backgroundImage: 'url("a;b.png")', WebkitLineClamp: '2'
+    });
+    assert.deepEqual(vnode.data.attrs, {});
+  });
+  it('maps data attributes to the dataset', function() {
+    elm.innerHTML = '<p data-user-id="1" data-x="y" title="t"></p>';
+    var vnode = toVNode(elm.firstChild, undefined, {dataset: true});
+    assert.deepEqual(vnode.data.dataset, {userId: '1', x: 'y'});
+    assert.deepEqual(vnode.data.attrs, {title: 't'});
+  });
+  it('maps the class attribute to class data', function() {
+    elm.innerHTML = '<p id="a" class="b  c"></p>';
+    var vnode = toVNode(elm.firstChild, undefined, {class: true});
+    assert.equal(vnode.sel, 'p#a');
+    assert.deepEqual(vnode.data.class, {b: true, c: true});
+  });
+  it('keeps the namespace of elements', function() {
+    elm.innerHTML = '<svg viewBox="0 0 1 1"><clipPath id="c"></clipPath></svg>';
+    var vnode = toVNode(elm.firstChild);
+    assert.equal(vnode.data.ns, 'http://www.w3.org/2000/svg');
+    assert.equal(vnode.children[0].sel, 'clipPath#c');
+    assert.equal(vnode.children[0].data.ns, 'http://www.w3.org/2000/svg');
+    assert.equal(toVNode(elm).data.ns, undefined);
+  });
+  it('skips whitespace text nodes', function() {
+    elm.innerHTML = '\n  <b>a</b>\n  <i> </i>\n';
+    var vnode = toVNode(elm, undefined, {skipWhitespace: true});
+    assert.equal(vnode.children.length, 2);
+    assert.equal(vnode.children[1].children.length, 0);
+  });
+  it('extracts keys', function() {
+    elm.innerHTML = '<ul><li data-key="a">a</li><li data-key="b">b</li><li>c</li></ul>';
+    var vnode = toVNode(elm.firstChild, undefined, {key: function(elm) { return elm.getAttribute('data-key'); }});
+    assert.deepEqual(vnode.children.map(function(ch) { return ch.key; }), ['a', 'b', undefined]);
+    assert.equal(vnode.key, undefined);
+  });
+  it('patches converted trees without recreating elements', function() {
+    var patch = snabbdom.init([
+      require('../modules/class').default,
+      require('../modules/style').default,
+      require('../modules/dataset').default,
+      require('../modules/attributes').default,
+    ]);
+    elm.innerHTML = '<ul>\n<li data-key="a" class="on" style="color: red">a</li>\n<li data-key="b">b</li>\n</ul>';
+    var ul = elm.firstChild, a = ul.children[0], b = ul.children[1];
+    var vnode = toVNode(ul, undefined, {
+      style: true, dataset: true, class: true, skipWhitespace: true,
+      key: function(elm) { return elm.dataset.key; }
+    });
+    patch(vnode, h('ul', [
+      h('li', {key: 'b', dataset: {key: 'b'}}, 'b'),
+      h('li', {key: 'a', dataset: {key: 'a'}, class: {on: true}, style: {color: 'red'}}, 'a')
+    ]));
+    assert.strictEqual(ul.children[0], b);
+    assert.strictEqual(ul.children[1], a);
+    assert.equal(a.className, 'on');
+    assert.equal(a.style.color, 'red');
+  });
+});